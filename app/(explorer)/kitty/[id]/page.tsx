@@ -0,0 +1,36 @@
+import type { Metadata } from "next";
+import { KittyExplorer } from "@/components/kitty-explorer";
+import { getBirth } from "@/lib/births";
+import { summarizeDominantCattributes } from "@/lib/cattributes";
+import { tryDecodeGenome } from "@/lib/genome";
+import { kittyImageUrl } from "@/lib/gql";
+
+type Params = Promise<{ id: string }>;
+
+export async function generateMetadata({
+  params,
+}: {
+  params: Params;
+}): Promise<Metadata> {
+  const { id } = await params;
+  const title = `Kitty #${id} · Genome Visualizer`;
+  let description = `Genome and inheritance of CryptoKitty #${id}`;
+  try {
+    const genome = tryDecodeGenome((await getBirth(id))?.genes);
+    if (genome) description = summarizeDominantCattributes(genome);
+  } catch {
+    // The indexer may be unreachable at render time; keep the generic text.
+  }
+  const image = kittyImageUrl(id)!;
+  return {
+    title,
+    description,
+    openGraph: { title, description, images: [{ url: image }] },
+    twitter: { card: "summary", title, description, images: [image] },
+  };
+}
+
+export default async function KittyPage({ params }: { params: Params }) {
+  const { id } = await params;
+  return <KittyExplorer kittyId={id} />;
+}
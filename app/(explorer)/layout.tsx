@@ -0,0 +1,11 @@
+import { LiveFeedProvider } from "@/components/live-feed";
+
+// The home and kitty pages share this layout, so the live feed keeps running
+// while moving between kitties.
+export default function ExplorerLayout({
+  children,
+}: Readonly<{
+  children: React.ReactNode;
+}>) {
+  return <LiveFeedProvider>{children}</LiveFeedProvider>;
+}
@@ -0,0 +1,129 @@
+import { cleanup, fireEvent, render, screen } from "@testing-library/react";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import KittyPage from "@/app/(explorer)/kitty/[id]/page";
+import ExplorerLayout from "@/app/(explorer)/layout";
+import Home from "@/app/(explorer)/page";
+import { fixtureFamily } from "@/test/fixtures";
+import { jsonResponse, mockGraphql } from "@/test/graphql";
+
+const push = vi.fn();
+vi.mock("next/navigation", () => ({ useRouter: () => ({ push }) }));
+
+// The home page against a mocked indexer: the explorer loads the newest
+// birth and its parents, and Load and Random navigate to a kitty page.
+// Birth records are cached for the whole file, as they are in the app.
+
+// Navigating replaces the home page with the kitty page.
+async function renderKittyPage(id: string) {
+  cleanup();
+  render(await KittyPage({ params: Promise.resolve({ id }) }), {
+    wrapper: ExplorerLayout,
+  });
+}
+
+beforeEach(() => {
+  push.mockReset();
+});
+
+describe("Home", () => {
+  it("shows the latest birth with its parents", async () => {
+    const requests = mockGraphql();
+    render(<Home />, { wrapper: ExplorerLayout });
+
+    expect(await screen.findByText("ID: 900000055")).toBeTruthy();
+    expect(await screen.findByText("ID: 900000018")).toBeTruthy();
+    expect(await screen.findByText("ID: 900000021")).toBeTruthy();
+    expect(requests).toContainEqual({
+      operation: "LatestBirths",
+      variables: { limit: 1 },
+    });
+    expect(requests).toContainEqual({
+      operation: "BirthsByKittyIds",
+      variables: { ids: ["900000018", "900000021"] },
+    });
+    expect(
+      await screen.findByRole("gridcell", { name: /^Kitten Body D: \w+ \(/ })
+    ).toBeTruthy();
+  });
+
+  it("loads a kitty by ID", async () => {
+    const requests = mockGraphql();
+    render(<Home />, { wrapper: ExplorerLayout });
+    fireEvent.change(screen.getByPlaceholderText("Kitty ID"), {
+      target: { value: "900000019" },
+    });
+    fireEvent.click(screen.getByRole("button", { name: "Load" }));
+    expect(push).toHaveBeenCalledWith("/kitty/900000019");
+
+    await renderKittyPage("900000019");
+    expect(await screen.findByText("ID: 900000019")).toBeTruthy();
+    expect(screen.getByPlaceholderText("Kitty ID")).toHaveProperty(
+      "value",
+      "900000019"
+    );
+    expect(requests).toContainEqual({
+      operation: "Children",
+      variables: { id: "900000019" },
+    });
+    // #900000019's eye type is a mutation of its parents' genes.
+    expect(await screen.findByText(/^Eye Type: Mewtation/)).toBeTruthy();
+  });
+
+  it("opens a random kitty picked by the server", async () => {
+    const family = fixtureFamily("900000042");
+    const requests = mockGraphql({
+      routes: { "/api/random": () => jsonResponse(family) },
+    });
+    render(<Home />, { wrapper: ExplorerLayout });
+    fireEvent.click(screen.getByRole("button", { name: "Random" }));
+    await vi.waitFor(() =>
+      expect(push).toHaveBeenCalledWith("/kitty/900000042")
+    );
+    expect(fetch).toHaveBeenCalledWith("/api/random", { cache: "no-store" });
+
+    // The picked family is cached, so the kitty page doesn't fetch it again.
+    await renderKittyPage("900000042");
+    expect(await screen.findByText("ID: 900000042")).toBeTruthy();
+    expect(
+      await screen.findByText(`ID: ${family.matron.kittyId}`)
+    ).toBeTruthy();
+    const ids = requests.flatMap((r) =>
+      r.operation === "BirthsByKittyIds" ? (r.variables.ids as string[]) : []
+    );
+    expect(ids).not.toContain("900000042");
+  });
+
+  it("says a gen-0 kitty has no parents", async () => {
+    mockGraphql();
+    await renderKittyPage("900000002");
+    expect(await screen.findByText("ID: 900000002")).toBeTruthy();
+    expect(screen.getAllByText("No parents (gen 0)")).toHaveLength(2);
+  });
+
+  it("reports indexer errors", async () => {
+    mockGraphql({ status: 500 });
+    render(<Home />, { wrapper: ExplorerLayout });
+    expect(await screen.findByText("GraphQL error 500")).toBeTruthy();
+  });
+
+  it("reports kitties that don't exist", async () => {
+    mockGraphql();
+    await renderKittyPage("900000999");
+    expect(await screen.findByText("Kitty not found")).toBeTruthy();
+  });
+
+  it("reports when no random kitty matches", async () => {
+    mockGraphql({
+      routes: {
+        "/api/random": () =>
+          jsonResponse({ error: "No kitty matches the filters" }, 404),
+      },
+    });
+    render(<Home />, { wrapper: ExplorerLayout });
+    fireEvent.click(screen.getByRole("button", { name: "Random" }));
+    expect(
+      await screen.findByText("No kitty matches the filters")
+    ).toBeTruthy();
+    expect(push).not.toHaveBeenCalled();
+  });
+});
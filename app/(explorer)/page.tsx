@@ -0,0 +1,5 @@
+import { KittyExplorer } from "@/components/kitty-explorer";
+
+export default function Home() {
+  return <KittyExplorer />;
+}
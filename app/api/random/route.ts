@@ -0,0 +1,58 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { pickRandomKitty, type RandomKittyFilter } from "@/lib/random-kitty";
+
+// Always sample afresh; a cached response would return the same kitty.
+export const dynamic = "force-dynamic";
+
+function generationParam(value: string | null): number | undefined {
+  if (value === null || value === "") return undefined;
+  const n = Number(value);
+  if (!Number.isInteger(n) || n < 0) {
+    throw new Error(`Invalid generation "${value}"`);
+  }
+  return n;
+}
+
+// GET /api/random?parents=1&mutation=1&minGen=0&maxGen=3&owner=0x...
+export async function GET(request: NextRequest) {
+  const params = request.nextUrl.searchParams;
+  let filter: RandomKittyFilter;
+  try {
+    filter = {
+      withParents: params.get("parents") === "1",
+      mutation: params.get("mutation") === "1",
+      minGeneration: generationParam(params.get("minGen")),
+      maxGeneration: generationParam(params.get("maxGen")),
+      owner: params.get("owner") || undefined,
+    };
+  } catch (e: unknown) {
+    const message = e instanceof Error ? e.message : String(e);
+    return NextResponse.json({ error: message }, { status: 400 });
+  }
+  if (
+    filter.minGeneration !== undefined &&
+    filter.maxGeneration !== undefined &&
+    filter.minGeneration > filter.maxGeneration
+  ) {
+    return NextResponse.json(
+      { error: "minGen must not be greater than maxGen" },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const kitty = await pickRandomKitty(filter);
+    if (!kitty) {
+      return NextResponse.json(
+        { error: "No kitty found for these filters" },
+        { status: 404 }
+      );
+    }
+    return NextResponse.json(kitty, {
+      headers: { "Cache-Control": "no-store" },
+    });
+  } catch (e: unknown) {
+    const message = e instanceof Error ? e.message : String(e);
+    return NextResponse.json({ error: message }, { status: 502 });
+  }
+}
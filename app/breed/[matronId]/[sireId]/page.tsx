@@ -0,0 +1,47 @@
+import type { Metadata } from "next";
+import Link from "next/link";
+import { BreedingPlanner } from "@/components/breeding-planner";
+import { kittyImageUrl } from "@/lib/gql";
+
+type Params = Promise<{ matronId: string; sireId: string }>;
+
+export async function generateMetadata({
+  params,
+}: {
+  params: Params;
+}): Promise<Metadata> {
+  const { matronId, sireId } = await params;
+  const title = `Breed #${matronId} × #${sireId} · Genome Visualizer`;
+  const description = `Predicted kitten gene odds for matron #${matronId} and sire #${sireId}`;
+  const images = [kittyImageUrl(matronId)!, kittyImageUrl(sireId)!];
+  return {
+    title,
+    description,
+    openGraph: { title, description, images: images.map((url) => ({ url })) },
+    twitter: { card: "summary", title, description, images },
+  };
+}
+
+export default async function BreedPage({ params }: { params: Params }) {
+  const { matronId, sireId } = await params;
+  return (
+    <div className="min-h-screen p-6">
+      <div className="mx-auto max-w-7xl space-y-8">
+        <header className="flex items-center justify-between">
+          <h1 className="text-3xl font-semibold tracking-tight">
+            CryptoKitties Genome Mapping
+          </h1>
+          <div className="flex items-center gap-4 text-xs">
+            <Link href={`/kitty/${matronId}`} className="underline">
+              Matron #{matronId}
+            </Link>
+            <Link href={`/kitty/${sireId}`} className="underline">
+              Sire #{sireId}
+            </Link>
+          </div>
+        </header>
+        <BreedingPlanner matronId={matronId} sireId={sireId} />
+      </div>
+    </div>
+  );
+}
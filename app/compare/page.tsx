@@ -0,0 +1,30 @@
+import type { Metadata } from "next";
+import { GenomeComparison } from "@/components/genome-comparison";
+
+type SearchParams = Promise<{ ids?: string }>;
+
+export async function generateMetadata({
+  searchParams,
+}: {
+  searchParams: SearchParams;
+}): Promise<Metadata> {
+  const { ids } = await searchParams;
+  const listed = ids ? ids.split(",").map((id) => `#${id}`) : [];
+  const title =
+    listed.length > 0
+      ? `Compare ${listed.join(" · ")} · Genome Visualizer`
+      : "Compare Genomes · Genome Visualizer";
+  return {
+    title,
+    description: "Side-by-side genome comparison of CryptoKitties",
+  };
+}
+
+export default async function ComparePage({
+  searchParams,
+}: {
+  searchParams: SearchParams;
+}) {
+  const { ids } = await searchParams;
+  return <GenomeComparison ids={ids ?? ""} />;
+}
@@ -15,6 +15,10 @@ const geistMono = Geist_Mono({
 export const metadata: Metadata = {
   title: "Genome Visualizer",
   description: "Visualize CryptoKitties genome inheritance and dominance",
+  openGraph: {
+    type: "website",
+    siteName: "Genome Visualizer",
+  },
 };
 
 export default function RootLayout({
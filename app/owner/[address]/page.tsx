@@ -0,0 +1,25 @@
+import type { Metadata } from "next";
+import { OwnerPortfolio } from "@/components/owner-portfolio";
+import { shortAddress } from "@/lib/portfolio";
+
+type Params = Promise<{ address: string }>;
+
+export async function generateMetadata({
+  params,
+}: {
+  params: Params;
+}): Promise<Metadata> {
+  const { address } = await params;
+  const title = `Owner ${shortAddress(address)} · Genome Visualizer`;
+  const description = `CryptoKitties born to ${address} and their cattributes`;
+  return {
+    title,
+    description,
+    openGraph: { title, description },
+  };
+}
+
+export default async function OwnerPage({ params }: { params: Params }) {
+  const { address } = await params;
+  return <OwnerPortfolio address={address} />;
+}
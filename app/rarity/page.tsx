@@ -0,0 +1,11 @@
+import type { Metadata } from "next";
+import { RarityView } from "@/components/rarity-view";
+
+export const metadata: Metadata = {
+  title: "Cattribute Rarity · Genome Visualizer",
+  description: "How common each CryptoKitties gene is, per trait and position",
+};
+
+export default function RarityPage() {
+  return <RarityView />;
+}
@@ -0,0 +1,12 @@
+import type { Metadata } from "next";
+import { BreedingRecommender } from "@/components/breeding-recommender";
+
+export const metadata: Metadata = {
+  title: "Breeding Recommender · Genome Visualizer",
+  description:
+    "Find the CryptoKitties pairs most likely to breed a target kitten",
+};
+
+export default function RecommendPage() {
+  return <BreedingRecommender />;
+}
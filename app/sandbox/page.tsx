@@ -0,0 +1,18 @@
+import type { Metadata } from "next";
+import { GenomeSandbox } from "@/components/genome-sandbox";
+
+type SearchParams = Promise<{ from?: string }>;
+
+export const metadata: Metadata = {
+  title: "Genome Sandbox · Genome Visualizer",
+  description: "Edit a hypothetical CryptoKitties genome gene by gene",
+};
+
+export default async function SandboxPage({
+  searchParams,
+}: {
+  searchParams: SearchParams;
+}) {
+  const { from } = await searchParams;
+  return <GenomeSandbox fromKittyId={from} />;
+}
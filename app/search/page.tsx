@@ -0,0 +1,11 @@
+import type { Metadata } from "next";
+import { GenomeSearch } from "@/components/genome-search";
+
+export const metadata: Metadata = {
+  title: "Genome Search · Genome Visualizer",
+  description: "Find CryptoKitties by the genes they carry",
+};
+
+export default function SearchPage() {
+  return <GenomeSearch />;
+}
@@ -0,0 +1,11 @@
+import type { Metadata } from "next";
+import { AlleleTimeline } from "@/components/allele-timeline";
+
+export const metadata: Metadata = {
+  title: "Allele Timeline · Genome Visualizer",
+  description: "How CryptoKitties gene frequencies changed over time",
+};
+
+export default function TimelinePage() {
+  return <AlleleTimeline />;
+}
@@ -0,0 +1,445 @@
+"use client";
+import Link from "next/link";
+import { useMemo, useRef, useState } from "react";
+import { KittyImage } from "@/components/kitty-image";
+import { useGenomeIndex } from "@/hooks/use-genome-index";
+import {
+  buildTimeline,
+  bucketSeconds,
+  type BucketSize,
+  type TimelineBucket,
+} from "@/lib/allele-timeline";
+import {
+  cattributeName,
+  DISPLAY_TRAIT_SLOTS,
+  TRAIT_LABELS,
+} from "@/lib/cattributes";
+import { KAI_ALPHABET, type TraitSlot } from "@/lib/genome";
+import { formatFrequency } from "@/lib/rarity";
+
+type Layer = "dominant" | "hidden";
+
+const SERIES_COUNT = 6;
+const SERIES_COLOURS = [
+  "#f59e0b",
+  "#0ea5e9",
+  "#10b981",
+  "#d946ef",
+  "#ef4444",
+  "#6366f1",
+];
+const MUTATION_COLOUR = "#f43f5e";
+const MAX_LISTED = 48;
+
+const WIDTH = 800;
+const CHART_HEIGHT = 220;
+const RATE_HEIGHT = 80;
+const BRUSH_HEIGHT = 40;
+
+function formatDate(seconds: number) {
+  return new Date(seconds * 1000).toISOString().slice(0, 10);
+}
+
+// Line path through `values`, one point per bucket.
+function linePath(
+  buckets: TimelineBucket[],
+  values: number[],
+  x: (bucket: TimelineBucket) => number,
+  height: number,
+  max: number
+) {
+  return buckets
+    .map(
+      (bucket, i) =>
+        `${i === 0 ? "M" : "L"}${x(bucket).toFixed(1)},${(
+          height -
+          (values[i] / max) * height
+        ).toFixed(1)}`
+    )
+    .join(" ");
+}
+
+// Overview of every bucket's birth count. Dragging selects the range shown in
+// the charts above; a click without dragging resets it.
+function Brush({
+  buckets,
+  range,
+  onChange,
+}: {
+  buckets: TimelineBucket[];
+  range: [number, number] | null;
+  onChange: (range: [number, number] | null) => void;
+}) {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const [drag, setDrag] = useState<[number, number] | null>(null);
+  const max = Math.max(1, ...buckets.map((b) => b.positions.length));
+  const barWidth = WIDTH / buckets.length;
+
+  const bucketAt = (clientX: number) => {
+    const rect = svgRef.current!.getBoundingClientRect();
+    const fraction = (clientX - rect.left) / rect.width;
+    return Math.min(
+      buckets.length - 1,
+      Math.max(0, Math.floor(fraction * buckets.length))
+    );
+  };
+
+  const shown = drag ?? range;
+  const [from, to] = shown
+    ? [Math.min(...shown), Math.max(...shown)]
+    : [0, buckets.length - 1];
+
+  return (
+    <svg
+      ref={svgRef}
+      viewBox={`0 0 ${WIDTH} ${BRUSH_HEIGHT}`}
+      className="w-full cursor-crosshair select-none touch-none"
+      onPointerDown={(e) => {
+        e.currentTarget.setPointerCapture(e.pointerId);
+        const i = bucketAt(e.clientX);
+        setDrag([i, i]);
+      }}
+      onPointerMove={(e) => {
+        if (drag) setDrag([drag[0], bucketAt(e.clientX)]);
+      }}
+      onPointerUp={() => {
+        if (!drag) return;
+        setDrag(null);
+        onChange(
+          drag[0] === drag[1] ? null : [Math.min(...drag), Math.max(...drag)]
+        );
+      }}
+    >
+      {buckets.map((bucket, i) => {
+        const h = (bucket.positions.length / max) * BRUSH_HEIGHT;
+        return (
+          <rect
+            key={bucket.start}
+            x={i * barWidth}
+            y={BRUSH_HEIGHT - h}
+            width={Math.max(1, barWidth - 1)}
+            height={h}
+            className="fill-foreground/40"
+          />
+        );
+      })}
+      <rect
+        x={from * barWidth}
+        y={0}
+        width={(to - from + 1) * barWidth}
+        height={BRUSH_HEIGHT}
+        className="fill-amber-400/20 stroke-amber-500"
+      />
+    </svg>
+  );
+}
+
+export function AlleleTimeline() {
+  const { index, size, isLoading, error } = useGenomeIndex();
+  const [slot, setSlot] = useState<TraitSlot>("mouth");
+  const [layer, setLayer] = useState<Layer>("dominant");
+  const [bucketSize, setBucketSize] = useState<BucketSize>("week");
+  const [range, setRange] = useState<[number, number] | null>(null);
+  const [selected, setSelected] = useState<number | null>(null);
+
+  // Each new snapshot of the index rebuilds the timeline.
+  const buckets = useMemo(
+    () => (index ? buildTimeline(index, slot, bucketSize) : []),
+    [index, slot, bucketSize]
+  );
+
+  const visible = useMemo(
+    () => (range ? buckets.slice(range[0], range[1] + 1) : buckets),
+    [buckets, range]
+  );
+
+  // The genes most common over the visible range get a line each.
+  const series = useMemo(() => {
+    const totals = new Array(KAI_ALPHABET.length).fill(0);
+    for (const bucket of visible) {
+      bucket[layer].forEach((count, value) => (totals[value] += count));
+    }
+    return totals
+      .map((total, value) => ({ value, total }))
+      .filter((s) => s.total > 0)
+      .sort((a, b) => b.total - a.total)
+      .slice(0, SERIES_COUNT)
+      .map(({ value }, i) => ({
+        gene: KAI_ALPHABET[value],
+        colour: SERIES_COLOURS[i],
+        frequencies: visible.map((b) => b[layer][value] / b.positions.length),
+      }));
+  }, [visible, layer]);
+
+  const mutationRates = visible.map((b) =>
+    b.withParents > 0 ? b.mutations / b.withParents : 0
+  );
+  const firstMutation = buckets.find((b) => b.mutations > 0);
+
+  const first = visible[0]?.start ?? 0;
+  const last =
+    (visible[visible.length - 1]?.start ?? 0) + bucketSeconds(bucketSize);
+  const x = (bucket: TimelineBucket) =>
+    ((bucket.start + bucketSeconds(bucketSize) / 2 - first) /
+      Math.max(1, last - first)) *
+    WIDTH;
+  const maxFrequency = Math.max(0.01, ...series.flatMap((s) => s.frequencies));
+  const maxRate = Math.max(0.01, ...mutationRates);
+
+  const selectedBucket = buckets.find((b) => b.start === selected);
+
+  const changeBuckets = (next: BucketSize) => {
+    setBucketSize(next);
+    setRange(null);
+    setSelected(null);
+  };
+
+  return (
+    <div className="min-h-screen p-6">
+      <div className="mx-auto max-w-7xl space-y-8">
+        <header className="flex items-center justify-between">
+          <h1 className="text-3xl font-semibold tracking-tight">
+            Allele Timeline
+          </h1>
+          <Link href="/" className="text-xs underline">
+            Genome mapping
+          </Link>
+        </header>
+
+        {error && <div className="text-sm text-red-600 mb-4">{error}</div>}
+
+        <section className="bg-gradient-to-b from-muted/10 to-muted/5 rounded-xl p-8 space-y-6">
+          <div className="flex flex-wrap gap-1">
+            {DISPLAY_TRAIT_SLOTS.map((s) => (
+              <button
+                key={s}
+                onClick={() => setSlot(s)}
+                className={
+                  s === slot
+                    ? "text-xs px-3 py-1 rounded bg-foreground text-background"
+                    : "text-xs px-3 py-1 rounded border"
+                }
+              >
+                {TRAIT_LABELS[s]}
+              </button>
+            ))}
+          </div>
+
+          <div className="flex items-center justify-between">
+            <p className="text-sm text-muted-foreground">
+              {size.toLocaleString()} kitties in {buckets.length}{" "}
+              {bucketSize === "day" ? "days" : "weeks"}
+              {isLoading && ", still indexing…"}
+              {range && visible.length > 0 && (
+                <>
+                  {" "}
+                  · showing {formatDate(visible[0].start)} to{" "}
+                  {formatDate(visible[visible.length - 1].start)}
+                </>
+              )}
+            </p>
+            <div className="flex items-center gap-3 text-xs">
+              <div className="flex gap-1">
+                {(["dominant", "hidden"] as const).map((l) => (
+                  <button
+                    key={l}
+                    onClick={() => setLayer(l)}
+                    className={
+                      l === layer
+                        ? "px-2 py-0.5 rounded bg-foreground text-background"
+                        : "px-2 py-0.5 rounded border"
+                    }
+                  >
+                    {l === "dominant" ? "Dominant" : "Hidden"}
+                  </button>
+                ))}
+              </div>
+              <div className="flex gap-1">
+                {(["day", "week"] as const).map((b) => (
+                  <button
+                    key={b}
+                    onClick={() => changeBuckets(b)}
+                    className={
+                      b === bucketSize
+                        ? "px-2 py-0.5 rounded bg-foreground text-background"
+                        : "px-2 py-0.5 rounded border"
+                    }
+                  >
+                    {b === "day" ? "Daily" : "Weekly"}
+                  </button>
+                ))}
+              </div>
+            </div>
+          </div>
+
+          {visible.length > 0 && (
+            <div className="space-y-4">
+              <svg
+                viewBox={`0 0 ${WIDTH} ${CHART_HEIGHT}`}
+                className="w-full overflow-visible"
+              >
+                {series.map((s) => (
+                  <path
+                    key={s.gene}
+                    d={linePath(
+                      visible,
+                      s.frequencies,
+                      x,
+                      CHART_HEIGHT,
+                      maxFrequency
+                    )}
+                    fill="none"
+                    stroke={s.colour}
+                    strokeWidth={1.5}
+                  />
+                ))}
+                {series.flatMap((s) =>
+                  visible.map((bucket, i) => (
+                    <circle
+                      key={`${s.gene}:${bucket.start}`}
+                      cx={x(bucket)}
+                      cy={
+                        CHART_HEIGHT -
+                        (s.frequencies[i] / maxFrequency) * CHART_HEIGHT
+                      }
+                      r={bucket.start === selected ? 4 : 2.5}
+                      fill={s.colour}
+                      className="cursor-pointer"
+                      onClick={() => setSelected(bucket.start)}
+                    >
+                      <title>
+                        {`${formatDate(bucket.start)} · ${s.gene} ${
+                          cattributeName(slot, s.gene) ?? "unknown"
+                        }: ${formatFrequency(s.frequencies[i])} of ${
+                          bucket.positions.length
+                        } kitties`}
+                      </title>
+                    </circle>
+                  ))
+                )}
+              </svg>
+              <div className="flex flex-wrap gap-3 text-xs">
+                {series.map((s) => (
+                  <span key={s.gene} className="flex items-center gap-1">
+                    <span
+                      className="inline-block w-3 h-3 rounded"
+                      style={{ backgroundColor: s.colour }}
+                    />
+                    {cattributeName(slot, s.gene) ?? "unknown"} ({s.gene})
+                  </span>
+                ))}
+                <span className="text-muted-foreground">
+                  Share of kitties born in each{" "}
+                  {bucketSize === "day" ? "day" : "week"}{" "}
+                  {layer === "dominant"
+                    ? "showing the gene"
+                    : "carrying the gene hidden"}
+                  , up to {formatFrequency(maxFrequency)}
+                </span>
+              </div>
+
+              <div>
+                <div className="text-xs font-medium mb-1">Mutation rate</div>
+                <svg
+                  viewBox={`0 0 ${WIDTH} ${RATE_HEIGHT}`}
+                  className="w-full overflow-visible"
+                >
+                  <path
+                    d={linePath(
+                      visible,
+                      mutationRates,
+                      x,
+                      RATE_HEIGHT,
+                      maxRate
+                    )}
+                    fill="none"
+                    stroke={MUTATION_COLOUR}
+                    strokeWidth={1.5}
+                  />
+                  {visible.map((bucket, i) => (
+                    <circle
+                      key={bucket.start}
+                      cx={x(bucket)}
+                      cy={
+                        RATE_HEIGHT - (mutationRates[i] / maxRate) * RATE_HEIGHT
+                      }
+                      r={bucket.start === selected ? 4 : 2.5}
+                      fill={MUTATION_COLOUR}
+                      className="cursor-pointer"
+                      onClick={() => setSelected(bucket.start)}
+                    >
+                      <title>
+                        {`${formatDate(bucket.start)}: ${bucket.mutations} of ${
+                          bucket.withParents
+                        } kittens with indexed parents mutated`}
+                      </title>
+                    </circle>
+                  ))}
+                </svg>
+                <p className="text-xs text-muted-foreground mt-1">
+                  Share of kittens with a gene mutated from their parents&apos;
+                  genes, up to {formatFrequency(maxRate)}.
+                  {firstMutation &&
+                    ` The first indexed mutation was born ${
+                      bucketSize === "day" ? "on" : "in the week of"
+                    } ${formatDate(firstMutation.start)}.`}
+                </p>
+              </div>
+
+              <div>
+                <div className="flex items-center justify-between text-xs mb-1">
+                  <span className="font-medium">Zoom</span>
+                  {range && (
+                    <button
+                      onClick={() => setRange(null)}
+                      className="underline"
+                    >
+                      Show all
+                    </button>
+                  )}
+                </div>
+                <Brush buckets={buckets} range={range} onChange={setRange} />
+              </div>
+            </div>
+          )}
+        </section>
+
+        {selectedBucket && index && (
+          <section className="bg-gradient-to-b from-muted/10 to-muted/5 rounded-xl p-8">
+            <h2 className="text-sm font-semibold mb-4">
+              {selectedBucket.positions.length} kitties born{" "}
+              {bucketSize === "day" ? "on" : "in the week of"}{" "}
+              {formatDate(selectedBucket.start)}
+            </h2>
+            <div className="grid grid-cols-8 gap-3">
+              {selectedBucket.positions.slice(0, MAX_LISTED).map((i) => {
+                const kittyId = index.kittyIds[i];
+                return (
+                  <Link
+                    key={kittyId}
+                    href={`/kitty/${kittyId}`}
+                    className="rounded-md bg-muted/20 hover:bg-muted/50 p-2 flex flex-col items-center"
+                  >
+                    <KittyImage
+                      kittyId={kittyId}
+                      alt={`Kitty #${kittyId}`}
+                      width={64}
+                      height={64}
+                      className="object-contain"
+                    />
+                    <div className="text-xs font-medium mt-1">#{kittyId}</div>
+                  </Link>
+                );
+              })}
+            </div>
+            {selectedBucket.positions.length > MAX_LISTED && (
+              <p className="text-xs text-muted-foreground mt-3">
+                and {selectedBucket.positions.length - MAX_LISTED} more
+              </p>
+            )}
+          </section>
+        )}
+      </div>
+    </div>
+  );
+}
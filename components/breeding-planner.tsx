@@ -0,0 +1,251 @@
+"use client";
+import { useRouter } from "next/navigation";
+import { useEffect, useMemo, useState } from "react";
+import { KittyImage } from "@/components/kitty-image";
+import { getBirths } from "@/lib/births";
+import {
+  cattributeName,
+  DISPLAY_TRAIT_SLOTS,
+  TRAIT_LABELS,
+} from "@/lib/cattributes";
+import {
+  mostLikelyGenome,
+  predictKitten,
+  type GeneOdds,
+} from "@/lib/gene-science";
+import {
+  GENE_POSITIONS,
+  tryDecodeGenome,
+  type TraitSlot,
+} from "@/lib/genome";
+import type { Birth } from "@/lib/gql";
+
+function formatPercent(probability: number) {
+  const pct = probability * 100;
+  return `${pct < 10 ? pct.toFixed(1) : pct.toFixed(0)}%`;
+}
+
+function OddsList({
+  slot,
+  odds,
+  limit,
+}: {
+  slot: TraitSlot;
+  odds: GeneOdds[];
+  limit: number;
+}) {
+  return (
+    <div className="space-y-0.5">
+      {odds.slice(0, limit).map((o) => (
+        <div
+          key={`${o.gene}:${o.mutation}`}
+          title={cattributeName(slot, o.gene)}
+          className="flex items-center justify-between gap-1"
+        >
+          <span
+            className={
+              o.mutation ? "font-semibold text-fuchsia-600" : "text-foreground"
+            }
+          >
+            {o.gene}
+            {o.mutation && "*"}
+          </span>
+          <span className="text-muted-foreground">
+            {formatPercent(o.probability)}
+          </span>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function ParentCard({ label, birth }: { label: string; birth?: Birth }) {
+  return (
+    <div className="bg-muted/20 rounded-lg p-4 w-56 flex flex-col items-center">
+      <div className="text-sm font-medium mb-2">{label}</div>
+      <div className="h-40 flex items-center justify-center">
+        {birth?.kittyId ? (
+          <KittyImage
+            kittyId={birth.kittyId}
+            alt={`${label} #${birth.kittyId}`}
+            width={160}
+            height={160}
+            className="max-w-full max-h-full object-contain"
+          />
+        ) : (
+          <div className="text-xs text-muted-foreground">Not loaded</div>
+        )}
+      </div>
+      <div className="text-xs text-muted-foreground mt-2">
+        ID: {birth?.kittyId || "-"}
+      </div>
+    </div>
+  );
+}
+
+// With `matronId` and `sireId` (the /breed route) the pair is loaded straight
+// away; the defaults only prefill the inputs.
+export function BreedingPlanner({
+  matronId,
+  sireId,
+  defaultMatronId,
+  defaultSireId,
+}: {
+  matronId?: string;
+  sireId?: string;
+  defaultMatronId?: string;
+  defaultSireId?: string;
+}) {
+  const router = useRouter();
+  const [matronIdInput, setMatronIdInput] = useState(
+    matronId ?? defaultMatronId ?? ""
+  );
+  const [sireIdInput, setSireIdInput] = useState(
+    sireId ?? defaultSireId ?? ""
+  );
+  const [matron, setMatron] = useState<Birth | null>(null);
+  const [sire, setSire] = useState<Birth | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  // Follow the family shown above until the user picks their own pair.
+  useEffect(() => {
+    if (defaultMatronId) setMatronIdInput((v) => v || defaultMatronId);
+    if (defaultSireId) setSireIdInput((v) => v || defaultSireId);
+  }, [defaultMatronId, defaultSireId]);
+
+  useEffect(() => {
+    if (matronId && sireId) loadPair(matronId, sireId);
+  }, [matronId, sireId]);
+
+  async function loadPair(matronId: string, sireId: string) {
+    try {
+      setError(null);
+      setIsLoading(true);
+      const births = await getBirths([matronId, sireId]);
+      const byId = Object.fromEntries(
+        births.map((b) => [b.kittyId, b])
+      ) as Record<string, Birth>;
+      if (!byId[matronId]) throw new Error(`Kitty ${matronId} not found`);
+      if (!byId[sireId]) throw new Error(`Kitty ${sireId} not found`);
+      setMatron(byId[matronId]);
+      setSire(byId[sireId]);
+    } catch (e: unknown) {
+      const message = e instanceof Error ? e.message : String(e);
+      setError(message);
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  const prediction = useMemo(() => {
+    const m = tryDecodeGenome(matron?.genes);
+    const s = tryDecodeGenome(sire?.genes);
+    if (!m || !s) return null;
+    return predictKitten(m, s);
+  }, [matron?.genes, sire?.genes]);
+
+  return (
+    <section className="bg-gradient-to-b from-muted/10 to-muted/5 rounded-xl p-8">
+      <div className="flex items-center justify-between mb-6">
+        <div>
+          <h2 className="text-xl font-semibold mb-1">Breeding Planner</h2>
+          <p className="text-sm text-muted-foreground">
+            Predict kitten gene odds for any matron and sire before breeding
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <input
+            value={matronIdInput}
+            onChange={(e) => setMatronIdInput(e.target.value)}
+            placeholder="Matron ID"
+            inputMode="numeric"
+            className="text-xs px-2 py-1 rounded border bg-background w-28"
+          />
+          <input
+            value={sireIdInput}
+            onChange={(e) => setSireIdInput(e.target.value)}
+            placeholder="Sire ID"
+            inputMode="numeric"
+            className="text-xs px-2 py-1 rounded border bg-background w-28"
+          />
+          <button
+            onClick={() =>
+              matronIdInput &&
+              sireIdInput &&
+              router.push(`/breed/${matronIdInput}/${sireIdInput}`)
+            }
+            disabled={isLoading}
+            className="text-xs px-3 py-1 rounded bg-foreground text-background disabled:opacity-50"
+          >
+            Predict
+          </button>
+        </div>
+      </div>
+
+      {error && <div className="text-sm text-red-600 mb-4">{error}</div>}
+
+      <div className="grid grid-cols-[auto_auto_1fr] gap-6 items-start">
+        <ParentCard label="Matron" birth={matron ?? undefined} />
+        <ParentCard label="Sire" birth={sire ?? undefined} />
+
+        <div className="bg-muted/20 rounded-lg p-4">
+          <div className="flex items-center gap-3 mb-3">
+            {prediction && (
+              <KittyImage
+                genome={mostLikelyGenome(prediction)}
+                alt="Most likely kitten"
+                width={64}
+                height={64}
+                className="object-contain"
+              />
+            )}
+            <div className="text-sm font-medium">Predicted kitten</div>
+          </div>
+          {prediction ? (
+            <div className="grid grid-cols-[auto_repeat(4,1fr)] gap-x-4 gap-y-2 text-xs">
+              <div />
+              {GENE_POSITIONS.map((position) => (
+                <div
+                  key={position}
+                  className="font-medium text-muted-foreground"
+                >
+                  {position}
+                </div>
+              ))}
+              {DISPLAY_TRAIT_SLOTS.map((slot) => {
+                const trait = prediction.find((t) => t.slot === slot);
+                const top = trait?.genes.D[0];
+                return (
+                  <div key={slot} className="contents">
+                    <div className="text-muted-foreground">
+                      <div>{TRAIT_LABELS[slot]}</div>
+                      <div className="text-[10px]">
+                        {(top && cattributeName(slot, top.gene)) ?? "—"}
+                      </div>
+                    </div>
+                    {GENE_POSITIONS.map((position) => (
+                      <OddsList
+                        key={position}
+                        slot={slot}
+                        odds={trait?.genes[position] ?? []}
+                        limit={position === "D" ? 4 : 2}
+                      />
+                    ))}
+                  </div>
+                );
+              })}
+            </div>
+          ) : (
+            <div className="text-xs text-muted-foreground">
+              Enter a matron and sire ID to see predicted gene odds.
+            </div>
+          )}
+          <div className="text-[10px] text-muted-foreground mt-3">
+            * mutation from the parents&apos; dominant gene pair
+          </div>
+        </div>
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,163 @@
+"use client";
+import Link from "next/link";
+import { useState } from "react";
+import { GeneQueryBuilder } from "@/components/gene-query-builder";
+import { KittyImage } from "@/components/kitty-image";
+import { useGenomeIndex } from "@/hooks/use-genome-index";
+import {
+  recommendPairs,
+  type RecommendedPair,
+} from "@/lib/breeding-recommender";
+import { cattributeName, TRAIT_LABELS } from "@/lib/cattributes";
+import type { GeneQuery } from "@/lib/genome-index";
+import { formatFrequency } from "@/lib/rarity";
+
+function KittyThumb({ kittyId }: { kittyId: string }) {
+  return (
+    <Link
+      href={`/kitty/${kittyId}`}
+      className="flex flex-col items-center hover:opacity-80"
+    >
+      <KittyImage
+        kittyId={kittyId}
+        alt={`Kitty #${kittyId}`}
+        width={64}
+        height={64}
+        className="object-contain"
+      />
+      <span className="text-xs font-medium">#{kittyId}</span>
+    </Link>
+  );
+}
+
+function PairRow({ rank, pair }: { rank: number; pair: RecommendedPair }) {
+  return (
+    <div className="flex items-center gap-6 rounded-lg bg-muted/20 p-3">
+      <div className="w-6 text-sm text-muted-foreground">{rank}</div>
+      <div className="flex items-center gap-2">
+        <KittyThumb kittyId={pair.matronId} />
+        <span className="text-muted-foreground">+</span>
+        <KittyThumb kittyId={pair.sireId} />
+      </div>
+      <div className="w-16 text-lg font-semibold">
+        {formatFrequency(pair.probability)}
+      </div>
+      <div className="flex-1 space-y-0.5 text-xs">
+        {pair.conditions.map(({ condition, inherited, mutation }) => (
+          <div
+            key={`${condition.slot}:${condition.position}`}
+            className="flex gap-2"
+          >
+            <span className="w-40 text-muted-foreground">
+              {TRAIT_LABELS[condition.slot]} {condition.position} ·{" "}
+              {cattributeName(condition.slot, condition.gene) ?? condition.gene}
+            </span>
+            <span>{formatFrequency(inherited + mutation)}</span>
+            {inherited > 0 && (
+              <span className="text-muted-foreground">
+                inherited {formatFrequency(inherited)}
+              </span>
+            )}
+            {mutation > 0 && (
+              <span className="font-semibold text-fuchsia-600">
+                mutation {formatFrequency(mutation)}
+              </span>
+            )}
+          </div>
+        ))}
+      </div>
+      <Link
+        href={`/breed/${pair.matronId}/${pair.sireId}`}
+        className="text-xs underline"
+      >
+        Full odds
+      </Link>
+    </div>
+  );
+}
+
+export function BreedingRecommender() {
+  const { index, size, isLoading, error } = useGenomeIndex();
+  const [target, setTarget] = useState<GeneQuery>({
+    combinator: "and",
+    conditions: [
+      { slot: "mouth", position: "D", gene: "1" },
+      { slot: "eyeShape", position: "D", gene: "1" },
+    ],
+  });
+  const [owner, setOwner] = useState("");
+  const [pairs, setPairs] = useState<RecommendedPair[] | null>(null);
+
+  const findPairs = () => {
+    if (!index) return;
+    setPairs(recommendPairs(index, target.conditions, { owner }));
+  };
+
+  return (
+    <div className="min-h-screen p-6">
+      <div className="mx-auto max-w-7xl space-y-8">
+        <header className="flex items-center justify-between">
+          <h1 className="text-3xl font-semibold tracking-tight">
+            Breeding Recommender
+          </h1>
+          <Link href="/" className="text-xs underline">
+            Genome mapping
+          </Link>
+        </header>
+
+        {error && <div className="text-sm text-red-600 mb-4">{error}</div>}
+
+        <section className="bg-gradient-to-b from-muted/10 to-muted/5 rounded-xl p-8 space-y-6">
+          <div className="space-y-2">
+            <h2 className="text-sm font-semibold">Target kitten</h2>
+            <GeneQueryBuilder
+              query={target}
+              onChange={setTarget}
+              allowOr={false}
+            />
+          </div>
+          <div className="flex items-center gap-2">
+            <input
+              value={owner}
+              onChange={(e) => setOwner(e.target.value)}
+              placeholder="Owner address (optional)"
+              className="text-xs px-2 py-1 rounded border bg-background w-96"
+            />
+            <button
+              onClick={findPairs}
+              disabled={!index || target.conditions.length === 0}
+              className="text-xs px-3 py-1 rounded bg-foreground text-background disabled:opacity-50"
+            >
+              Find pairs
+            </button>
+            <span className="text-xs text-muted-foreground">
+              {size.toLocaleString()} kitties indexed
+              {isLoading && ", still indexing…"}
+            </span>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Pairs KittyCore won&apos;t breed, such as siblings or a parent and
+            its kitten, are left out. Cooldowns aren&apos;t checked.
+          </p>
+
+          {pairs &&
+            (pairs.length > 0 ? (
+              <div className="space-y-2">
+                {pairs.map((pair, idx) => (
+                  <PairRow
+                    key={`${pair.matronId}:${pair.sireId}`}
+                    rank={idx + 1}
+                    pair={pair}
+                  />
+                ))}
+              </div>
+            ) : (
+              <div className="text-sm text-muted-foreground">
+                No pair in the pool can produce this kitten.
+              </div>
+            ))}
+        </section>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,155 @@
+"use client";
+import { useEffect, useMemo, useState } from "react";
+import { KittyImage } from "@/components/kitty-image";
+import { cattributeName, TRAIT_LABELS } from "@/lib/cattributes";
+import { loadFamily, type Family } from "@/lib/family";
+import { tryDecodeGenome } from "@/lib/genome";
+import { diffGenomes } from "@/lib/genome-diff";
+import type { Birth } from "@/lib/gql";
+
+type Tab = keyof Family;
+
+const TAB_LABELS: Record<Tab, string> = {
+  children: "Children",
+  fullSiblings: "Siblings",
+  halfSiblings: "Half-siblings",
+};
+
+function GeneComparison({ kitten, other }: { kitten: Birth; other: Birth }) {
+  const differences = useMemo(() => {
+    const k = tryDecodeGenome(kitten.genes);
+    const o = tryDecodeGenome(other.genes);
+    return k && o ? diffGenomes(k, o) : [];
+  }, [kitten, other]);
+
+  return (
+    <div className="mt-4 rounded-lg bg-muted/20 p-4">
+      <div className="text-sm font-medium mb-2">
+        #{kitten.kittyId} vs #{other.kittyId}:{" "}
+        <span className="text-muted-foreground font-normal">
+          {differences.length} of 48 genes differ
+        </span>
+      </div>
+      <div className="grid grid-cols-3 gap-x-8 gap-y-1 text-xs">
+        {differences.map((d) => (
+          <div key={`${d.slot}:${d.position}`} className="flex gap-2">
+            <span
+              className={`w-36 ${
+                d.position === "D" ? "font-semibold" : "text-muted-foreground"
+              }`}
+            >
+              {TRAIT_LABELS[d.slot]} {d.position}
+            </span>
+            <span title={cattributeName(d.slot, d.a)}>{d.a}</span>
+            <span className="text-muted-foreground">→</span>
+            <span title={cattributeName(d.slot, d.b)}>{d.b}</span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+export function FamilyStrip({
+  kitten,
+  onSelect,
+}: {
+  kitten: Birth | null;
+  onSelect: (kittyId: string) => void;
+}) {
+  const [family, setFamily] = useState<Family | null>(null);
+  const [tab, setTab] = useState<Tab>("fullSiblings");
+  const [compareId, setCompareId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setFamily(null);
+    setCompareId(null);
+    if (!kitten) return;
+    let cancelled = false;
+    (async () => {
+      try {
+        setError(null);
+        const found = await loadFamily(kitten);
+        if (!cancelled) setFamily(found);
+      } catch (e: unknown) {
+        const message = e instanceof Error ? e.message : String(e);
+        if (!cancelled) setError(message);
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [kitten]);
+
+  const members = family?.[tab] ?? [];
+  const compared = members.find((b) => b.kittyId === compareId);
+
+  return (
+    <section className="bg-gradient-to-b from-muted/10 to-muted/5 rounded-xl p-4">
+      <div className="flex items-center gap-2 mb-3 text-xs">
+        <h2 className="text-sm font-semibold mr-2">Family</h2>
+        {(Object.keys(TAB_LABELS) as Tab[]).map((t) => (
+          <button
+            key={t}
+            onClick={() => {
+              setTab(t);
+              setCompareId(null);
+            }}
+            className={
+              tab === t
+                ? "px-2 py-0.5 rounded bg-foreground text-background"
+                : "px-2 py-0.5 rounded border"
+            }
+          >
+            {TAB_LABELS[t]} {family && `(${family[t].length})`}
+          </button>
+        ))}
+      </div>
+
+      {error && <div className="text-sm text-red-600 mb-4">{error}</div>}
+
+      {members.length > 0 ? (
+        <div className="flex gap-3 overflow-x-auto pb-2">
+          {members.map((birth) => (
+            <div
+              key={birth.kittyId}
+              className={`shrink-0 w-28 rounded-md p-2 flex flex-col items-center ${
+                birth.kittyId === compareId ? "bg-muted/60" : "bg-muted/20"
+              }`}
+            >
+              <button onClick={() => onSelect(birth.kittyId)}>
+                <KittyImage
+                  kittyId={birth.kittyId}
+                  alt={`Kitty #${birth.kittyId}`}
+                  width={72}
+                  height={72}
+                  className="object-contain"
+                />
+              </button>
+              <div className="text-xs font-medium mt-1">#{birth.kittyId}</div>
+              <button
+                onClick={() =>
+                  setCompareId(
+                    birth.kittyId === compareId ? null : birth.kittyId
+                  )
+                }
+                className="text-[10px] text-muted-foreground underline"
+              >
+                {birth.kittyId === compareId ? "Hide" : "Compare"}
+              </button>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <div className="text-xs text-muted-foreground">
+          {family ? `No ${TAB_LABELS[tab].toLowerCase()}` : "Loading..."}
+        </div>
+      )}
+
+      {kitten && compared && (
+        <GeneComparison kitten={kitten} other={compared} />
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,135 @@
+"use client";
+import { Plus, X } from "lucide-react";
+import {
+  cattributeName,
+  DISPLAY_TRAIT_SLOTS,
+  TRAIT_LABELS,
+} from "@/lib/cattributes";
+import {
+  GENE_POSITIONS,
+  KAI_ALPHABET,
+  type GenePosition,
+  type TraitSlot,
+} from "@/lib/genome";
+import type { GeneCondition, GeneQuery } from "@/lib/genome-index";
+
+const SELECT_CLASS = "text-xs px-2 py-1 rounded border bg-background";
+
+function ConditionRow({
+  condition,
+  onChange,
+  onRemove,
+}: {
+  condition: GeneCondition;
+  onChange: (condition: GeneCondition) => void;
+  onRemove: () => void;
+}) {
+  return (
+    <div className="flex items-center gap-2">
+      <select
+        value={condition.slot}
+        onChange={(e) =>
+          onChange({ ...condition, slot: e.target.value as TraitSlot })
+        }
+        className={SELECT_CLASS}
+      >
+        {DISPLAY_TRAIT_SLOTS.map((slot) => (
+          <option key={slot} value={slot}>
+            {TRAIT_LABELS[slot]}
+          </option>
+        ))}
+      </select>
+      <select
+        value={condition.position}
+        onChange={(e) =>
+          onChange({ ...condition, position: e.target.value as GenePosition })
+        }
+        className={SELECT_CLASS}
+      >
+        {GENE_POSITIONS.map((position) => (
+          <option key={position} value={position}>
+            {position}
+          </option>
+        ))}
+      </select>
+      <select
+        value={condition.gene}
+        onChange={(e) => onChange({ ...condition, gene: e.target.value })}
+        className={SELECT_CLASS}
+      >
+        {KAI_ALPHABET.split("").map((gene) => (
+          <option key={gene} value={gene}>
+            {gene} · {cattributeName(condition.slot, gene) ?? "unknown"}
+          </option>
+        ))}
+      </select>
+      <button
+        onClick={onRemove}
+        aria-label="Remove condition"
+        className="text-muted-foreground"
+      >
+        <X className="h-4 w-4" />
+      </button>
+    </div>
+  );
+}
+
+// Edits a list of trait/position/gene conditions. Without `allowOr` the
+// conditions are always combined with AND.
+export function GeneQueryBuilder({
+  query,
+  onChange,
+  allowOr = true,
+}: {
+  query: GeneQuery;
+  onChange: (query: GeneQuery) => void;
+  allowOr?: boolean;
+}) {
+  const update = (conditions: GeneCondition[]) =>
+    onChange({ ...query, conditions });
+
+  return (
+    <div className="space-y-2">
+      {allowOr && (
+        <div className="flex items-center gap-2 text-xs text-muted-foreground">
+          Match
+          {(["and", "or"] as const).map((combinator) => (
+            <button
+              key={combinator}
+              onClick={() => onChange({ ...query, combinator })}
+              className={
+                query.combinator === combinator
+                  ? "px-2 py-0.5 rounded bg-foreground text-background"
+                  : "px-2 py-0.5 rounded border"
+              }
+            >
+              {combinator === "and" ? "all (AND)" : "any (OR)"}
+            </button>
+          ))}
+        </div>
+      )}
+      {query.conditions.map((condition, idx) => (
+        <ConditionRow
+          key={idx}
+          condition={condition}
+          onChange={(next) =>
+            update(query.conditions.map((c, i) => (i === idx ? next : c)))
+          }
+          onRemove={() => update(query.conditions.filter((_, i) => i !== idx))}
+        />
+      ))}
+      <button
+        onClick={() =>
+          update([
+            ...query.conditions,
+            { slot: "mouth", position: "D", gene: KAI_ALPHABET[0] },
+          ])
+        }
+        className="flex items-center gap-1 text-xs px-2 py-1 rounded border"
+      >
+        <Plus className="h-3 w-3" />
+        Add condition
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,293 @@
+"use client";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { useEffect, useMemo, useState } from "react";
+import { KittyImage } from "@/components/kitty-image";
+import { getBirths } from "@/lib/births";
+import {
+  cattributeName,
+  DISPLAY_TRAIT_SLOTS,
+  TRAIT_LABELS,
+} from "@/lib/cattributes";
+import {
+  GENE_POSITIONS,
+  getTrait,
+  tryDecodeGenome,
+  type GenePosition,
+  type Genome,
+} from "@/lib/genome";
+import {
+  geneAgreement,
+  genomeSimilarity,
+  sharedHiddenGenes,
+} from "@/lib/genome-diff";
+
+const MIN_COMPARED = 2;
+const MAX_COMPARED = 8;
+const COUNT_ERROR = `Enter between ${MIN_COMPARED} and ${MAX_COMPARED} kitty IDs to compare`;
+
+const QUAD_POSITIONS = [...GENE_POSITIONS].reverse();
+
+// Parses "1, 2 3" style input into unique kitty IDs.
+function parseKittyIds(input: string): string[] {
+  return [...new Set(input.split(/[\s,]+/).filter((id) => /^\d+$/.test(id)))];
+}
+
+function agreementBgClass(count: number, total: number) {
+  if (count === total) return "bg-emerald-200/70 dark:bg-emerald-800/50";
+  if (count > 1) return "bg-amber-200/70 dark:bg-amber-800/50";
+  return "bg-muted";
+}
+
+function similarityBgClass(similarity: number) {
+  if (similarity >= 0.9) return "bg-rose-300/70 dark:bg-rose-700/60";
+  if (similarity >= 0.6) return "bg-amber-200/70 dark:bg-amber-800/50";
+  return "bg-muted/40";
+}
+
+// `ids` is the comma-separated list from the URL.
+export function GenomeComparison({ ids }: { ids: string }) {
+  const router = useRouter();
+  const kittyIds = useMemo(() => parseKittyIds(ids), [ids]);
+  const [input, setInput] = useState(kittyIds.join(", "));
+  const [genomes, setGenomes] = useState<Array<{
+    kittyId: string;
+    genome: Genome;
+  }> | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setInput(kittyIds.join(", "));
+    if (kittyIds.length < MIN_COMPARED || kittyIds.length > MAX_COMPARED) {
+      setGenomes(null);
+      // A bare /compare has nothing to complain about yet.
+      setError(kittyIds.length > 0 ? COUNT_ERROR : null);
+      return;
+    }
+    let cancelled = false;
+    (async () => {
+      try {
+        setError(null);
+        const births = await getBirths(kittyIds);
+        const found = kittyIds.flatMap((kittyId) => {
+          const genome = tryDecodeGenome(
+            births.find((b) => b.kittyId === kittyId)?.genes
+          );
+          return genome ? [{ kittyId, genome }] : [];
+        });
+        const missing = kittyIds.filter(
+          (id) => !found.some((f) => f.kittyId === id)
+        );
+        if (cancelled) return;
+        setGenomes(found);
+        if (missing.length > 0) {
+          setError(`Not found: ${missing.map((id) => `#${id}`).join(", ")}`);
+        }
+      } catch (e: unknown) {
+        const message = e instanceof Error ? e.message : String(e);
+        if (!cancelled) setError(message);
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [kittyIds]);
+
+  const agreement = useMemo(
+    () => (genomes ? geneAgreement(genomes.map((g) => g.genome)) : []),
+    [genomes]
+  );
+
+  const compare = () => {
+    const ids = parseKittyIds(input);
+    if (ids.length < MIN_COMPARED || ids.length > MAX_COMPARED) {
+      setError(COUNT_ERROR);
+      return;
+    }
+    router.push(`/compare?ids=${ids.join(",")}`);
+  };
+
+  // Hidden genes of a trait that at least one other compared kitty also
+  // carries hidden.
+  const isSharedHidden = (row: number, slotIdx: number, gene: string) =>
+    genomes!.some(
+      (other, i) =>
+        i !== row &&
+        (["R1", "R2", "R3"] as GenePosition[]).some(
+          (p) => other.genome[slotIdx].genes[p] === gene
+        )
+    );
+
+  return (
+    <div className="min-h-screen p-6">
+      <div className="mx-auto max-w-7xl space-y-8">
+        <header className="flex items-center justify-between">
+          <h1 className="text-3xl font-semibold tracking-tight">
+            Compare Genomes
+          </h1>
+          <Link href="/" className="text-xs underline">
+            Genome mapping
+          </Link>
+        </header>
+
+        <div className="flex items-center gap-2">
+          <input
+            value={input}
+            onChange={(e) => setInput(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") compare();
+            }}
+            placeholder={`${MIN_COMPARED}-${MAX_COMPARED} kitty IDs, e.g. 1, 2, 3`}
+            className="text-xs px-2 py-1 rounded border bg-background w-96"
+          />
+          <button
+            onClick={compare}
+            className="text-xs px-3 py-1 rounded bg-foreground text-background"
+          >
+            Compare
+          </button>
+        </div>
+
+        {error && <div className="text-sm text-red-600 mb-4">{error}</div>}
+
+        {genomes && genomes.length >= MIN_COMPARED && (
+          <>
+            <section className="bg-gradient-to-b from-muted/10 to-muted/5 rounded-xl p-8 overflow-x-auto">
+              <div className="grid grid-cols-[6rem_repeat(12,minmax(0,1fr))] gap-x-3 gap-y-3 min-w-[64rem]">
+                <div />
+                {DISPLAY_TRAIT_SLOTS.map((slot) => (
+                  <div
+                    key={slot}
+                    className="text-[10px] font-medium text-center text-muted-foreground"
+                  >
+                    {TRAIT_LABELS[slot]}
+                  </div>
+                ))}
+                {genomes.map(({ kittyId, genome }, row) => (
+                  <div key={kittyId} className="contents">
+                    <Link
+                      href={`/kitty/${kittyId}`}
+                      className="flex items-center gap-1 text-xs font-medium"
+                    >
+                      <KittyImage
+                        kittyId={kittyId}
+                        alt={`Kitty #${kittyId}`}
+                        width={32}
+                        height={32}
+                        className="object-contain"
+                      />
+                      #{kittyId}
+                    </Link>
+                    {DISPLAY_TRAIT_SLOTS.map((slot) => {
+                      const trait = getTrait(genome, slot)!;
+                      const slotIdx = genome.indexOf(trait);
+                      return (
+                        <div
+                          key={slot}
+                          className="flex flex-col items-center gap-1"
+                        >
+                          <div className="flex gap-0.5">
+                            {QUAD_POSITIONS.map((position) => {
+                              const gene = trait.genes[position];
+                              const count = agreement[row][slot][position];
+                              const sharedHidden =
+                                position !== "D" &&
+                                isSharedHidden(row, slotIdx, gene);
+                              return (
+                                <div
+                                  key={position}
+                                  title={`${TRAIT_LABELS[slot]} ${position}: ${
+                                    cattributeName(slot, gene) ?? "unknown"
+                                  } (${gene}) · ${count} of ${genomes.length} match`}
+                                  className={`w-6 h-6 flex items-center justify-center rounded text-xs ${agreementBgClass(
+                                    count,
+                                    genomes.length
+                                  )} ${
+                                    position === "D"
+                                      ? "font-bold ring-1 ring-foreground/70"
+                                      : "text-foreground/70"
+                                  } ${sharedHidden ? "underline decoration-dotted" : ""}`}
+                                >
+                                  {gene}
+                                </div>
+                              );
+                            })}
+                          </div>
+                          <div className="text-[10px] leading-tight text-muted-foreground truncate max-w-full">
+                            {cattributeName(slot, trait.genes.D) ?? "—"}
+                          </div>
+                        </div>
+                      );
+                    })}
+                  </div>
+                ))}
+              </div>
+              <div className="mt-6 flex flex-wrap items-center justify-center gap-3 text-xs text-muted-foreground">
+                <span className="flex items-center gap-1">
+                  <span className="inline-block w-3 h-3 rounded bg-emerald-200/70 dark:bg-emerald-800/50" />
+                  All agree
+                </span>
+                <span className="flex items-center gap-1">
+                  <span className="inline-block w-3 h-3 rounded bg-amber-200/70 dark:bg-amber-800/50" />
+                  Some agree
+                </span>
+                <span className="flex items-center gap-1">
+                  <span className="inline-block w-3 h-3 rounded bg-muted" />
+                  Unique
+                </span>
+                <span className="underline decoration-dotted">
+                  Hidden gene shared with another kitty
+                </span>
+              </div>
+            </section>
+
+            <section className="bg-gradient-to-b from-muted/10 to-muted/5 rounded-xl p-8">
+              <h2 className="text-sm font-semibold mb-4">Similarity</h2>
+              <table className="text-xs">
+                <thead>
+                  <tr>
+                    <th />
+                    {genomes.map(({ kittyId }) => (
+                      <th key={kittyId} className="px-2 py-1 font-medium">
+                        #{kittyId}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {genomes.map((a, i) => (
+                    <tr key={a.kittyId}>
+                      <th className="px-2 py-1 font-medium text-left">
+                        #{a.kittyId}
+                      </th>
+                      {genomes.map((b, j) => {
+                        if (i === j) return <td key={b.kittyId} />;
+                        const similarity = genomeSimilarity(a.genome, b.genome);
+                        const hidden = sharedHiddenGenes(a.genome, b.genome);
+                        return (
+                          <td
+                            key={b.kittyId}
+                            title={`${hidden.length} hidden genes in common`}
+                            className={`px-2 py-1 text-center rounded ${similarityBgClass(
+                              similarity
+                            )}`}
+                          >
+                            {Math.round(similarity * 100)}%
+                          </td>
+                        );
+                      })}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              <p className="mt-3 text-xs text-muted-foreground">
+                Share of the 48 genes identical position for position. Pairs
+                above 90% are near-clones.
+              </p>
+            </section>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,82 @@
+"use client";
+import { Download } from "lucide-react";
+import { useState } from "react";
+import type { Birth } from "@/lib/gql";
+import {
+  downloadFile,
+  genomeCardSvg,
+  genomeCsv,
+  genomeJson,
+  svgToPng,
+  type ExportFamily,
+} from "@/lib/genome-export";
+
+type Format = "json" | "csv" | "svg" | "png";
+
+const FORMAT_LABELS: Record<Format, string> = {
+  json: "JSON",
+  csv: "CSV",
+  svg: "SVG",
+  png: "PNG",
+};
+
+export function GenomeExportMenu({ family }: { family: ExportFamily }) {
+  const [error, setError] = useState<string | null>(null);
+  const kittyId = family.kitten?.kittyId;
+
+  async function exportAs(format: Format) {
+    if (!kittyId) return;
+    const name = `kitty-${kittyId}-genome`;
+    try {
+      setError(null);
+      switch (format) {
+        case "json":
+          downloadFile(
+            `${name}.json`,
+            new Blob([genomeJson(family)], { type: "application/json" })
+          );
+          break;
+        case "csv": {
+          const births = [family.matron, family.sire, family.kitten].filter(
+            (b): b is Birth => Boolean(b)
+          );
+          downloadFile(
+            `${name}.csv`,
+            new Blob([genomeCsv(births)], { type: "text/csv" })
+          );
+          break;
+        }
+        case "svg":
+          downloadFile(
+            `${name}.svg`,
+            new Blob([genomeCardSvg(family)], { type: "image/svg+xml" })
+          );
+          break;
+        case "png":
+          downloadFile(`${name}.png`, await svgToPng(genomeCardSvg(family)));
+          break;
+      }
+    } catch (e: unknown) {
+      const message = e instanceof Error ? e.message : String(e);
+      setError(message);
+    }
+  }
+
+  return (
+    <div className="flex items-center gap-2 text-xs">
+      <Download className="h-3 w-3 text-muted-foreground" />
+      <span className="text-muted-foreground">Export</span>
+      {(Object.keys(FORMAT_LABELS) as Format[]).map((format) => (
+        <button
+          key={format}
+          onClick={() => exportAs(format)}
+          disabled={!kittyId}
+          className="px-2 py-0.5 rounded border disabled:opacity-50"
+        >
+          {FORMAT_LABELS[format]}
+        </button>
+      ))}
+      {error && <span className="text-red-600">{error}</span>}
+    </div>
+  );
+}
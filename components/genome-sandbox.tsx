@@ -0,0 +1,437 @@
+"use client";
+import Link from "next/link";
+import { useEffect, useMemo, useState } from "react";
+import { KittyImage } from "@/components/kitty-image";
+import { RELATION_LEGEND, relationBgClass } from "@/components/kitty-explorer";
+import { getBirth, getBirths } from "@/lib/births";
+import {
+  cattributeName,
+  DISPLAY_TRAIT_SLOTS,
+  TRAIT_LABELS,
+} from "@/lib/cattributes";
+import { predictKitten } from "@/lib/gene-science";
+import {
+  encodeGenome,
+  GENE_POSITIONS,
+  genomeToKai,
+  getTrait,
+  tryDecodeGenome,
+  type GenePosition,
+  type Genome,
+  type TraitSlot,
+} from "@/lib/genome";
+import { diffGenomes } from "@/lib/genome-diff";
+import {
+  blankGenome,
+  geneChoices,
+  genomeHex,
+  parseGenomeInput,
+  withGene,
+} from "@/lib/genome-sandbox";
+import type { Birth } from "@/lib/gql";
+import {
+  deriveTraitRelations,
+  relationCategory,
+  type GeneRelation,
+} from "@/lib/inheritance";
+import { formatFrequency } from "@/lib/rarity";
+
+type ParentRole = "matron" | "sire";
+
+const QUAD_POSITIONS = [...GENE_POSITIONS].reverse();
+const PREDICTED_GENES = 3;
+
+function GeneSelect({
+  slot,
+  position,
+  gene,
+  relation,
+  isChanged,
+  onChange,
+}: {
+  slot: TraitSlot;
+  position: GenePosition;
+  gene: string;
+  relation?: GeneRelation;
+  isChanged: boolean;
+  onChange: (gene: string) => void;
+}) {
+  const name = cattributeName(slot, gene);
+  return (
+    <select
+      value={gene}
+      onChange={(e) => onChange(e.target.value)}
+      aria-label={`${TRAIT_LABELS[slot]} ${position}`}
+      title={name ?? "no known cattribute"}
+      className={`w-9 h-7 rounded text-xs text-center appearance-none cursor-pointer ${
+        relation ? relationBgClass(relationCategory(relation)) : "bg-muted"
+      } ${position === "D" ? "font-bold" : "text-foreground/70"} ${
+        isChanged ? "ring-2 ring-amber-500" : ""
+      } ${name ? "" : "italic"}`}
+    >
+      {geneChoices(slot, gene).map((choice) => (
+        <option key={choice.gene} value={choice.gene}>
+          {choice.gene} {choice.name ?? "(no cattribute)"}
+        </option>
+      ))}
+    </select>
+  );
+}
+
+function CopyField({ label, value }: { label: string; value: string }) {
+  const [copied, setCopied] = useState(false);
+  return (
+    <div className="space-y-1">
+      <div className="flex items-center justify-between text-xs">
+        <span className="font-medium">{label}</span>
+        <button
+          onClick={() => {
+            navigator.clipboard
+              .writeText(value)
+              .then(() => setCopied(true))
+              .catch(() => setCopied(false));
+          }}
+          className="underline text-muted-foreground"
+        >
+          {copied ? "Copied" : "Copy"}
+        </button>
+      </div>
+      <code className="block text-[11px] break-all rounded bg-muted/40 p-2">
+        {value}
+      </code>
+    </div>
+  );
+}
+
+// Edits a hypothetical genome gene by gene, starting from a kitty or from
+// scratch. With the starting kitty's parents loaded, each gene is coloured by
+// whether those parents could have passed it on.
+export function GenomeSandbox({ fromKittyId }: { fromKittyId?: string }) {
+  const [genome, setGenome] = useState<Genome>(blankGenome);
+  const [source, setSource] = useState<Birth | null>(null);
+  const [parents, setParents] = useState<Record<ParentRole, Genome | null>>({
+    matron: null,
+    sire: null,
+  });
+  const [kittyIdInput, setKittyIdInput] = useState(fromKittyId ?? "");
+  const [importInput, setImportInput] = useState("");
+  const [partnerInput, setPartnerInput] = useState("");
+  const [partner, setPartner] = useState<Birth | null>(null);
+  const [role, setRole] = useState<ParentRole>("matron");
+  const [error, setError] = useState<string | null>(null);
+
+  async function loadKitty(kittyId: string) {
+    try {
+      setError(null);
+      const birth = await getBirth(kittyId);
+      const decoded = tryDecodeGenome(birth?.genes);
+      if (!birth || !decoded) throw new Error(`Kitty ${kittyId} not found`);
+      const found = await getBirths([birth.matronId, birth.sireId]);
+      const byId = new Map(found.map((b) => [b.kittyId, b]));
+      setGenome(decoded);
+      setSource(birth);
+      setParents({
+        matron: tryDecodeGenome(byId.get(birth.matronId)?.genes),
+        sire: tryDecodeGenome(byId.get(birth.sireId)?.genes),
+      });
+    } catch (e: unknown) {
+      const message = e instanceof Error ? e.message : String(e);
+      setError(message);
+    }
+  }
+
+  useEffect(() => {
+    if (fromKittyId) loadKitty(fromKittyId);
+  }, [fromKittyId]);
+
+  function startBlank() {
+    setError(null);
+    setGenome(blankGenome());
+    setSource(null);
+    setParents({ matron: null, sire: null });
+  }
+
+  function importGenes() {
+    try {
+      setError(null);
+      setGenome(parseGenomeInput(importInput));
+      setSource(null);
+      setParents({ matron: null, sire: null });
+    } catch (e: unknown) {
+      const message = e instanceof Error ? e.message : String(e);
+      setError(message);
+    }
+  }
+
+  async function loadPartner() {
+    try {
+      setError(null);
+      const birth = await getBirth(partnerInput);
+      if (!birth) throw new Error(`Kitty ${partnerInput} not found`);
+      setPartner(birth);
+    } catch (e: unknown) {
+      const message = e instanceof Error ? e.message : String(e);
+      setError(message);
+    }
+  }
+
+  const original = useMemo(() => tryDecodeGenome(source?.genes), [source]);
+  const changed = useMemo(
+    () =>
+      new Set(
+        original
+          ? diffGenomes(original, genome).map((d) => `${d.slot}:${d.position}`)
+          : []
+      ),
+    [original, genome]
+  );
+
+  const relations = useMemo(() => {
+    const { matron, sire } = parents;
+    if (!matron || !sire) return null;
+    return genome.map((trait, idx) =>
+      deriveTraitRelations(matron[idx], sire[idx], trait)
+    );
+  }, [genome, parents]);
+
+  const partnerGenome = useMemo(
+    () => tryDecodeGenome(partner?.genes),
+    [partner]
+  );
+  const prediction = useMemo(() => {
+    if (!partnerGenome) return null;
+    return role === "matron"
+      ? predictKitten(genome, partnerGenome)
+      : predictKitten(partnerGenome, genome);
+  }, [genome, partnerGenome, role]);
+
+  return (
+    <div className="min-h-screen p-6">
+      <div className="mx-auto max-w-7xl space-y-8">
+        <header className="flex items-center justify-between">
+          <h1 className="text-3xl font-semibold tracking-tight">
+            Genome Sandbox
+          </h1>
+          <Link href="/" className="text-xs underline">
+            Genome mapping
+          </Link>
+        </header>
+
+        <div className="flex flex-wrap items-center gap-2">
+          <input
+            value={kittyIdInput}
+            onChange={(e) => setKittyIdInput(e.target.value)}
+            placeholder="Kitty ID"
+            inputMode="numeric"
+            className="text-xs px-2 py-1 rounded border bg-background w-28"
+          />
+          <button
+            onClick={() => kittyIdInput && loadKitty(kittyIdInput)}
+            className="text-xs px-3 py-1 rounded bg-foreground text-background"
+          >
+            Start from kitty
+          </button>
+          <button
+            onClick={startBlank}
+            className="text-xs px-3 py-1 rounded border"
+          >
+            Blank
+          </button>
+          <input
+            value={importInput}
+            onChange={(e) => setImportInput(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") importGenes();
+            }}
+            placeholder="Paste decimal, 0x hex or Kai genes"
+            className="text-xs px-2 py-1 rounded border bg-background w-96"
+          />
+          <button
+            onClick={importGenes}
+            className="text-xs px-3 py-1 rounded border"
+          >
+            Import
+          </button>
+        </div>
+
+        {error && <div className="text-sm text-red-600 mb-4">{error}</div>}
+
+        <section className="bg-gradient-to-b from-muted/10 to-muted/5 rounded-xl p-8">
+          <div className="flex items-start gap-8">
+            <div className="flex flex-col items-center gap-2 w-48 shrink-0">
+              <KittyImage
+                genome={genome}
+                alt="Edited genome"
+                width={160}
+                height={160}
+                className="object-contain"
+              />
+              <div className="text-xs text-muted-foreground text-center">
+                {source
+                  ? `Edited from #${source.kittyId}, ${changed.size} of 48 genes changed`
+                  : "Hypothetical genome"}
+              </div>
+            </div>
+
+            <div className="grid grid-cols-[8rem_auto_1fr] gap-x-4 gap-y-1.5 items-center">
+              {DISPLAY_TRAIT_SLOTS.map((slot) => {
+                const trait = getTrait(genome, slot)!;
+                const slotIdx = genome.indexOf(trait);
+                return (
+                  <div key={slot} className="contents">
+                    <div className="text-xs text-muted-foreground">
+                      {TRAIT_LABELS[slot]}
+                    </div>
+                    <div className="flex gap-0.5">
+                      {QUAD_POSITIONS.map((position) => (
+                        <GeneSelect
+                          key={position}
+                          slot={slot}
+                          position={position}
+                          gene={trait.genes[position]}
+                          relation={relations?.[slotIdx][position]}
+                          isChanged={changed.has(`${slot}:${position}`)}
+                          onChange={(gene) =>
+                            setGenome(withGene(genome, slot, position, gene))
+                          }
+                        />
+                      ))}
+                    </div>
+                    <div className="text-xs">
+                      {cattributeName(slot, trait.genes.D) ?? "—"}
+                      <span className="text-muted-foreground">
+                        {" "}
+                        ·{" "}
+                        {(["R1", "R2", "R3"] as const)
+                          .map((p) => cattributeName(slot, trait.genes[p]))
+                          .filter(Boolean)
+                          .join(", ") || "no named hidden genes"}
+                      </span>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+
+          <div className="mt-6 flex flex-wrap items-center gap-3 text-xs text-muted-foreground">
+            {relations ? (
+              <>
+                {RELATION_LEGEND.map(({ category, label }) => (
+                  <span key={category} className="flex items-center gap-1">
+                    <span
+                      className={`inline-block w-3 h-3 rounded ${relationBgClass(
+                        category
+                      )}`}
+                    />
+                    {label}
+                  </span>
+                ))}
+                <span>against the parents of #{source?.kittyId}</span>
+              </>
+            ) : (
+              <span>
+                Start from a kitty with indexed parents to see which genes they
+                could have passed on.
+              </span>
+            )}
+            {changed.size > 0 && (
+              <span className="flex items-center gap-1">
+                <span className="inline-block w-3 h-3 rounded ring-2 ring-amber-500" />
+                Edited
+              </span>
+            )}
+          </div>
+        </section>
+
+        <section className="bg-gradient-to-b from-muted/10 to-muted/5 rounded-xl p-8 space-y-4">
+          <h2 className="text-sm font-semibold">Genes value</h2>
+          <CopyField label="Decimal" value={encodeGenome(genome).toString()} />
+          <CopyField label="Hex" value={genomeHex(genome)} />
+          <CopyField label="Kai" value={genomeToKai(genome)} />
+        </section>
+
+        <section className="bg-gradient-to-b from-muted/10 to-muted/5 rounded-xl p-8">
+          <div className="flex flex-wrap items-center justify-between gap-2 mb-4">
+            <h2 className="text-sm font-semibold">Pair with a kitty</h2>
+            <div className="flex items-center gap-2 text-xs">
+              <span className="text-muted-foreground">Edited genome as</span>
+              {(["matron", "sire"] as const).map((r) => (
+                <button
+                  key={r}
+                  onClick={() => setRole(r)}
+                  className={
+                    r === role
+                      ? "px-2 py-0.5 rounded bg-foreground text-background"
+                      : "px-2 py-0.5 rounded border"
+                  }
+                >
+                  {r === "matron" ? "Matron" : "Sire"}
+                </button>
+              ))}
+              <input
+                value={partnerInput}
+                onChange={(e) => setPartnerInput(e.target.value)}
+                placeholder={role === "matron" ? "Sire ID" : "Matron ID"}
+                inputMode="numeric"
+                className="px-2 py-1 rounded border bg-background w-28"
+              />
+              <button
+                onClick={() => partnerInput && loadPartner()}
+                className="px-3 py-1 rounded bg-foreground text-background"
+              >
+                Pair
+              </button>
+            </div>
+          </div>
+
+          {prediction && partnerGenome ? (
+            <table className="text-xs w-full">
+              <thead>
+                <tr className="text-left text-muted-foreground">
+                  <th className="py-1 font-medium">Trait</th>
+                  <th className="py-1 font-medium">Edited</th>
+                  <th className="py-1 font-medium">#{partner?.kittyId}</th>
+                  <th className="py-1 font-medium">Likely kitten dominant</th>
+                </tr>
+              </thead>
+              <tbody>
+                {DISPLAY_TRAIT_SLOTS.map((slot) => {
+                  const odds = prediction.find((t) => t.slot === slot)!.genes.D;
+                  const name = (g: Genome) =>
+                    cattributeName(slot, getTrait(g, slot)?.genes.D) ??
+                    getTrait(g, slot)?.genes.D;
+                  return (
+                    <tr key={slot} className="border-t border-muted">
+                      <td className="py-1">{TRAIT_LABELS[slot]}</td>
+                      <td className="py-1">{name(genome)}</td>
+                      <td className="py-1">{name(partnerGenome)}</td>
+                      <td className="py-1">
+                        {odds.slice(0, PREDICTED_GENES).map((o) => (
+                          <span
+                            key={`${o.gene}:${o.mutation}`}
+                            className={`mr-3 ${
+                              o.mutation ? "font-semibold text-fuchsia-600" : ""
+                            }`}
+                          >
+                            {cattributeName(slot, o.gene) ?? o.gene}
+                            {o.mutation && "*"} {formatFrequency(o.probability)}
+                          </span>
+                        ))}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          ) : (
+            <p className="text-xs text-muted-foreground">
+              Pair the edited genome with an indexed kitty to see the kitten
+              odds it would give. * marks a mutation.
+            </p>
+          )}
+        </section>
+      </div>
+    </div>
+  );
+}
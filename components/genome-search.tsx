@@ -0,0 +1,161 @@
+"use client";
+import Link from "next/link";
+import { useMemo, useState } from "react";
+import { GeneQueryBuilder } from "@/components/gene-query-builder";
+import { KittyImage } from "@/components/kitty-image";
+import { useGenomeIndex } from "@/hooks/use-genome-index";
+import {
+  indexedGenome,
+  searchGenomeIndex,
+  UNKNOWN_GENERATION,
+  type GeneQuery,
+} from "@/lib/genome-index";
+import { specialName } from "@/lib/kitty-meta";
+
+const PAGE_SIZE = 24;
+
+const MAX_GENERATION_OPTIONS = [0, 1, 2, 5, 10, 20];
+
+export function GenomeSearch() {
+  const { index, size, isLoading, error } = useGenomeIndex();
+  const [query, setQuery] = useState<GeneQuery>({
+    combinator: "and",
+    conditions: [{ slot: "mouth", position: "D", gene: "1" }],
+  });
+  const [maxGeneration, setMaxGeneration] = useState<number | null>(null);
+  const [specialOnly, setSpecialOnly] = useState(false);
+  const [page, setPage] = useState(0);
+
+  // Each new snapshot of the index re-runs the search. Kitties of
+  // unknown generation are dropped once a generation limit is set.
+  const matches = useMemo(() => {
+    if (!index) return [];
+    return searchGenomeIndex(index, query).filter(
+      (i) =>
+        (maxGeneration === null || index.generations[i] <= maxGeneration) &&
+        (!specialOnly ||
+          specialName(index.kittyIds[i], indexedGenome(index, i)) !== null)
+    );
+  }, [index, query, maxGeneration, specialOnly]);
+  const pageCount = Math.max(1, Math.ceil(matches.length / PAGE_SIZE));
+  const currentPage = Math.min(page, pageCount - 1);
+  const visible = matches.slice(
+    currentPage * PAGE_SIZE,
+    (currentPage + 1) * PAGE_SIZE
+  );
+
+  return (
+    <div className="min-h-screen p-6">
+      <div className="mx-auto max-w-7xl space-y-8">
+        <header className="flex items-center justify-between">
+          <h1 className="text-3xl font-semibold tracking-tight">
+            Genome Search
+          </h1>
+          <Link href="/" className="text-xs underline">
+            Genome mapping
+          </Link>
+        </header>
+
+        {error && <div className="text-sm text-red-600 mb-4">{error}</div>}
+
+        <section className="bg-gradient-to-b from-muted/10 to-muted/5 rounded-xl p-8 space-y-6">
+          <GeneQueryBuilder
+            query={query}
+            onChange={(next) => {
+              setQuery(next);
+              setPage(0);
+            }}
+          />
+          <div className="flex items-center gap-4 text-xs">
+            <label className="flex items-center gap-1">
+              Generation
+              <select
+                value={maxGeneration ?? ""}
+                onChange={(e) => {
+                  setMaxGeneration(
+                    e.target.value === "" ? null : Number(e.target.value)
+                  );
+                  setPage(0);
+                }}
+                className="px-2 py-1 rounded border bg-background"
+              >
+                <option value="">Any</option>
+                {MAX_GENERATION_OPTIONS.map((g) => (
+                  <option key={g} value={g}>
+                    {g === 0 ? "Gen 0 only" : `Gen ${g} or lower`}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="flex items-center gap-1">
+              <input
+                type="checkbox"
+                checked={specialOnly}
+                onChange={(e) => {
+                  setSpecialOnly(e.target.checked);
+                  setPage(0);
+                }}
+              />
+              Fancy or exclusive only
+            </label>
+          </div>
+          <p className="text-sm text-muted-foreground">
+            {matches.length.toLocaleString()} matches in {size.toLocaleString()}{" "}
+            indexed kitties
+            {isLoading && ", still indexing…"}
+          </p>
+
+          <div className="grid grid-cols-6 gap-4">
+            {visible.map((i) => {
+              const kittyId = index!.kittyIds[i];
+              const generation = index!.generations[i];
+              return (
+                <Link
+                  key={kittyId}
+                  href={`/kitty/${kittyId}`}
+                  className="rounded-md bg-muted/20 hover:bg-muted/50 p-2 flex flex-col items-center"
+                >
+                  <KittyImage
+                    kittyId={kittyId}
+                    alt={`Kitty #${kittyId}`}
+                    width={96}
+                    height={96}
+                    className="object-contain"
+                  />
+                  <div className="text-xs font-medium mt-1">#{kittyId}</div>
+                  {generation !== UNKNOWN_GENERATION && (
+                    <div className="text-[10px] text-muted-foreground">
+                      Gen {generation}
+                    </div>
+                  )}
+                </Link>
+              );
+            })}
+          </div>
+
+          {matches.length > PAGE_SIZE && (
+            <div className="flex items-center justify-center gap-3 text-xs">
+              <button
+                onClick={() => setPage(currentPage - 1)}
+                disabled={currentPage === 0}
+                className="px-3 py-1 rounded border disabled:opacity-50"
+              >
+                Previous
+              </button>
+              <span className="text-muted-foreground">
+                Page {currentPage + 1} of {pageCount}
+              </span>
+              <button
+                onClick={() => setPage(currentPage + 1)}
+                disabled={currentPage >= pageCount - 1}
+                className="px-3 py-1 rounded border disabled:opacity-50"
+              >
+                Next
+              </button>
+            </div>
+          )}
+        </section>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,130 @@
+import { act, fireEvent, render, screen } from "@testing-library/react";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { GuidedTour } from "@/components/guided-tour";
+import type { TourStep } from "@/lib/tour";
+
+const STEPS: TourStep[] = [
+  {
+    id: "kitten",
+    selector: "#kitten",
+    title: "The kitten",
+    description: "Genes the kitten was born with.",
+  },
+  {
+    id: "parents",
+    selector: "#parents",
+    title: "The parents",
+    description: "Where those genes came from.",
+  },
+];
+
+function Targets() {
+  return (
+    <>
+      <div id="kitten" />
+      <div id="parents" />
+    </>
+  );
+}
+
+beforeEach(() => {
+  // jsdom has no layout: give targets a fixed box and make scrolling a no-op.
+  vi.stubGlobal(
+    "ResizeObserver",
+    class {
+      observe() {}
+      disconnect() {}
+    }
+  );
+  Element.prototype.scrollIntoView = vi.fn();
+  vi.spyOn(Element.prototype, "getBoundingClientRect").mockReturnValue(
+    new DOMRect(50, 100, 40, 20)
+  );
+});
+
+describe("GuidedTour", () => {
+  it("spotlights the current step's target", async () => {
+    render(
+      <>
+        <Targets />
+        <GuidedTour steps={STEPS} onClose={vi.fn()} />
+      </>
+    );
+    const dialog = await screen.findByRole("dialog", { name: "The kitten" });
+    expect(dialog.textContent).toContain("1 / 2");
+    expect(dialog.textContent).toContain("Genes the kitten was born with.");
+    expect(
+      document.getElementById("kitten")!.scrollIntoView
+    ).toHaveBeenCalled();
+
+    const spotlight = dialog.querySelector<HTMLElement>(".ring-amber-400")!;
+    expect(spotlight.style).toMatchObject({
+      top: "92px",
+      left: "42px",
+      width: "56px",
+      height: "36px",
+    });
+  });
+
+  it("waits for a target that hasn't rendered yet", async () => {
+    const { rerender } = render(<GuidedTour steps={STEPS} onClose={vi.fn()} />);
+    expect(screen.queryByRole("dialog")).toBeNull();
+    rerender(
+      <>
+        <Targets />
+        <GuidedTour steps={STEPS} onClose={vi.fn()} />
+      </>
+    );
+    expect(await screen.findByRole("dialog")).toBeTruthy();
+  });
+
+  it("shows a step centred when its target never renders", () => {
+    vi.useFakeTimers();
+    try {
+      render(<GuidedTour steps={STEPS} onClose={vi.fn()} />);
+      expect(screen.queryByRole("dialog")).toBeNull();
+      act(() => vi.advanceTimersByTime(3000));
+      const dialog = screen.getByRole("dialog", { name: "The kitten" });
+      expect(dialog.querySelector(".ring-amber-400")).toBeNull();
+      fireEvent.keyDown(window, { key: "ArrowRight" });
+      act(() => vi.advanceTimersByTime(3000));
+      expect(screen.getByRole("dialog", { name: "The parents" })).toBeTruthy();
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it("steps with the buttons and arrow keys and closes on the last step", async () => {
+    const onClose = vi.fn();
+    render(
+      <>
+        <Targets />
+        <GuidedTour steps={STEPS} onClose={onClose} />
+      </>
+    );
+    fireEvent.click(await screen.findByRole("button", { name: "Next" }));
+    expect(
+      await screen.findByRole("dialog", { name: "The parents" })
+    ).toBeTruthy();
+
+    fireEvent.click(screen.getByRole("button", { name: "Back" }));
+    await screen.findByRole("dialog", { name: "The kitten" });
+
+    fireEvent.keyDown(window, { key: "ArrowRight" });
+    fireEvent.click(await screen.findByRole("button", { name: "Got it" }));
+    expect(onClose).toHaveBeenCalledTimes(1);
+  });
+
+  it("closes on Escape and Skip", async () => {
+    const onClose = vi.fn();
+    render(
+      <>
+        <Targets />
+        <GuidedTour steps={STEPS} onClose={onClose} />
+      </>
+    );
+    fireEvent.click(await screen.findByRole("button", { name: "Skip" }));
+    fireEvent.keyDown(window, { key: "Escape" });
+    expect(onClose).toHaveBeenCalledTimes(2);
+  });
+});
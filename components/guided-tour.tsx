@@ -0,0 +1,212 @@
+"use client";
+import { useEffect, useState } from "react";
+import type { TourPlacement, TourStep } from "@/lib/tour";
+
+const TOOLTIP_WIDTH = 320;
+const TOOLTIP_GAP = 16;
+const SPOTLIGHT_PADDING = 8;
+const TARGET_TIMEOUT_MS = 3000;
+
+const CENTRED = {
+  left: "50%",
+  top: "50%",
+  transform: "translate(-50%, -50%)",
+};
+
+function useElementRect(target: HTMLElement | null): DOMRect | null {
+  const [rect, setRect] = useState<DOMRect | null>(null);
+  useEffect(() => {
+    if (!target) {
+      setRect(null);
+      return;
+    }
+    const update = () => setRect(target.getBoundingClientRect());
+    update();
+    const ro = new ResizeObserver(update);
+    ro.observe(target);
+    window.addEventListener("scroll", update, { passive: true });
+    window.addEventListener("resize", update);
+    return () => {
+      ro.disconnect();
+      window.removeEventListener("scroll", update);
+      window.removeEventListener("resize", update);
+    };
+  }, [target]);
+  return rect;
+}
+
+// Waits for `selector` to render, e.g. while the kitten is still loading. A
+// target that still hasn't rendered after TARGET_TIMEOUT_MS is reported
+// missing.
+function useStepTarget(selector: string | undefined) {
+  const [target, setTarget] = useState<HTMLElement | null>(null);
+  const [isMissing, setIsMissing] = useState(false);
+  useEffect(() => {
+    setTarget(null);
+    setIsMissing(false);
+    if (!selector) return;
+    let frame = 0;
+    const timer = setTimeout(() => {
+      cancelAnimationFrame(frame);
+      setIsMissing(true);
+    }, TARGET_TIMEOUT_MS);
+    const find = () => {
+      const el = document.querySelector(selector) as HTMLElement | null;
+      if (el) {
+        clearTimeout(timer);
+        el.scrollIntoView({ behavior: "smooth", block: "center" });
+        setTarget(el);
+      } else {
+        frame = requestAnimationFrame(find);
+      }
+    };
+    find();
+    return () => {
+      cancelAnimationFrame(frame);
+      clearTimeout(timer);
+    };
+  }, [selector]);
+  return { target, isMissing };
+}
+
+// Tooltip position for `placement`, falling back to below the target when the
+// preferred side doesn't fit in the viewport.
+function tooltipPosition(
+  spot: { top: number; left: number; width: number; height: number },
+  placement: TourPlacement
+) {
+  const fitsRight =
+    spot.left + spot.width + TOOLTIP_GAP + TOOLTIP_WIDTH < window.innerWidth;
+  const fitsLeft = spot.left - TOOLTIP_GAP - TOOLTIP_WIDTH > 0;
+  const clampLeft = (left: number) =>
+    Math.min(
+      Math.max(TOOLTIP_GAP, left),
+      window.innerWidth - TOOLTIP_WIDTH - TOOLTIP_GAP
+    );
+  if (placement === "right" && fitsRight) {
+    return { left: spot.left + spot.width + TOOLTIP_GAP, top: spot.top };
+  }
+  if (placement === "left" && fitsLeft) {
+    return { left: spot.left - TOOLTIP_GAP - TOOLTIP_WIDTH, top: spot.top };
+  }
+  if (placement === "top" && spot.top > 200) {
+    return {
+      left: clampLeft(spot.left),
+      bottom: window.innerHeight - spot.top + TOOLTIP_GAP,
+    };
+  }
+  return {
+    left: clampLeft(spot.left),
+    top: Math.min(
+      window.innerHeight - TOOLTIP_GAP,
+      spot.top + spot.height + TOOLTIP_GAP
+    ),
+  };
+}
+
+// Steps through `steps`, spotlighting each target. A step whose target never
+// renders is shown centred instead. Esc closes the tour and the arrow keys
+// move between steps.
+export function GuidedTour({
+  steps,
+  onClose,
+}: {
+  steps: TourStep[];
+  onClose: () => void;
+}) {
+  const [index, setIndex] = useState(0);
+  const step = steps[index];
+  const { target, isMissing } = useStepTarget(step?.selector);
+  const rect = useElementRect(target);
+  const isLast = index === steps.length - 1;
+
+  const goNext = () => (isLast ? onClose() : setIndex(index + 1));
+  const goBack = () => setIndex(Math.max(0, index - 1));
+
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "Escape") onClose();
+      else if (e.key === "ArrowRight") goNext();
+      else if (e.key === "ArrowLeft") goBack();
+    };
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  });
+
+  if (!step || (!rect && !isMissing)) return null;
+  const spot = rect && {
+    top: Math.max(0, rect.top - SPOTLIGHT_PADDING),
+    left: Math.max(0, rect.left - SPOTLIGHT_PADDING),
+    width: rect.width + SPOTLIGHT_PADDING * 2,
+    height: rect.height + SPOTLIGHT_PADDING * 2,
+  };
+
+  return (
+    <div
+      className="fixed inset-0 z-50"
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="tour-title"
+    >
+      <div className="absolute inset-0 bg-black/60" />
+      {spot && (
+        <div
+          className="absolute rounded-md ring-2 ring-amber-400 shadow-[0_0_0_9999px_rgba(0,0,0,0.6)]"
+          style={{ ...spot, pointerEvents: "none" }}
+        />
+      )}
+      <div
+        className="absolute bg-background text-foreground shadow-lg rounded-md p-4 w-[320px] border"
+        style={
+          spot ? tooltipPosition(spot, step.placement ?? "bottom") : CENTRED
+        }
+      >
+        <div className="flex items-center justify-between mb-1">
+          <div id="tour-title" className="text-sm font-semibold">
+            {step.title}
+          </div>
+          <div className="text-[10px] text-muted-foreground">
+            {index + 1} / {steps.length}
+          </div>
+        </div>
+        <div className="text-xs text-muted-foreground mb-3">
+          {step.description}
+        </div>
+        <div className="flex justify-center gap-1 mb-3">
+          {steps.map((s, i) => (
+            <span
+              key={s.id}
+              className={`inline-block h-1.5 w-1.5 rounded-full ${
+                i === index ? "bg-foreground" : "bg-muted-foreground/30"
+              }`}
+            />
+          ))}
+        </div>
+        <div className="flex items-center justify-between">
+          <button
+            onClick={onClose}
+            className="text-xs text-muted-foreground underline decoration-dotted"
+          >
+            Skip
+          </button>
+          <div className="flex items-center gap-2">
+            {index > 0 && (
+              <button
+                onClick={goBack}
+                className="text-xs px-3 py-1 rounded border"
+              >
+                Back
+              </button>
+            )}
+            <button
+              onClick={goNext}
+              className="text-xs px-3 py-1 rounded bg-foreground text-background"
+            >
+              {isLast ? "Got it" : "Next"}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,53 @@
+"use client";
+import type { Genome } from "@/lib/genome";
+import {
+  cooldownName,
+  detectFancy,
+  exclusiveName,
+  isFounder,
+} from "@/lib/kitty-meta";
+
+const BADGE_CLASS = "rounded-full px-1.5 py-0.5 text-[10px] font-medium";
+
+// Generation, starting cooldown and fancy, exclusive or founder status of one
+// kitty.
+// Generation is omitted while it's still being worked out.
+export function KittyBadges({
+  kittyId,
+  genome,
+  generation,
+}: {
+  kittyId: string;
+  genome?: Genome | null;
+  generation?: number;
+}) {
+  const exclusive = exclusiveName(kittyId);
+  const fancy = genome ? detectFancy(genome) : null;
+  return (
+    <div className="flex flex-wrap justify-center gap-1">
+      {generation !== undefined && (
+        <>
+          <span className={`${BADGE_CLASS} bg-foreground text-background`}>
+            Gen {generation}
+          </span>
+          <span className={`${BADGE_CLASS} border text-muted-foreground`}>
+            {cooldownName(generation)}
+          </span>
+        </>
+      )}
+      {fancy && (
+        <span className={`${BADGE_CLASS} bg-violet-500 text-white`}>
+          Fancy: {fancy}
+        </span>
+      )}
+      {exclusive && (
+        <span className={`${BADGE_CLASS} bg-amber-400 text-black`}>
+          Exclusive: {exclusive}
+        </span>
+      )}
+      {isFounder(kittyId) && (
+        <span className={`${BADGE_CLASS} bg-sky-500 text-white`}>Founder</span>
+      )}
+    </div>
+  );
+}
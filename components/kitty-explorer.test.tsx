@@ -0,0 +1,164 @@
+import { fireEvent, render, screen, within } from "@testing-library/react";
+import { describe, expect, it, vi } from "vitest";
+import {
+  KittyExplorer,
+  Quad,
+  relationBgClass,
+} from "@/components/kitty-explorer";
+import { LiveFeedProvider } from "@/components/live-feed";
+import type { GenePosition, TraitGenes } from "@/lib/genome";
+import type { RelationCategory } from "@/lib/inheritance";
+import { mockGraphql } from "@/test/graphql";
+
+const push = vi.fn();
+vi.mock("next/navigation", () => ({ useRouter: () => ({ push }) }));
+
+const BODY: TraitGenes = {
+  slot: "body",
+  genes: { D: "1", R1: "2", R2: "3", R3: "h" },
+};
+
+const CATEGORIES: Record<GenePosition, RelationCategory | null> = {
+  D: "matronDominant",
+  R1: "both",
+  R2: null,
+  R3: "mutation",
+};
+
+function renderQuad(props: Partial<Parameters<typeof Quad>[0]> = {}) {
+  const onCellFocus = vi.fn();
+  render(
+    <div role="grid">
+      <div role="row">
+        <Quad
+          rowLabel="Kitten"
+          row={2}
+          traitIndex={11}
+          focusedCell={{ row: 2, col: 45 }}
+          onCellFocus={onCellFocus}
+          colourBlind={false}
+          trait={BODY}
+          categories={CATEGORIES}
+          {...props}
+        />
+      </div>
+    </div>
+  );
+  return { cells: screen.getAllByRole("gridcell"), onCellFocus };
+}
+
+describe("relationBgClass", () => {
+  it("gives every relation its own colour", () => {
+    const categories: RelationCategory[] = [
+      "both",
+      "matronDominant",
+      "matronRecessive",
+      "sireDominant",
+      "sireRecessive",
+      "mutation",
+      "unknown",
+    ];
+    const classes = categories.map(relationBgClass);
+    expect(new Set(classes).size).toBe(categories.length);
+    expect(relationBgClass("unknown")).toBe("bg-muted");
+    expect(relationBgClass("mutation")).toContain("bg-fuchsia-300");
+  });
+});
+
+describe("Quad", () => {
+  it("lays genes out R3 R2 R1 D with the dominant gene outlined", () => {
+    const { cells } = renderQuad();
+    expect(cells.map((cell) => cell.dataset.position)).toEqual([
+      "R3",
+      "R2",
+      "R1",
+      "D",
+    ]);
+    expect(cells.map((cell) => cell.textContent)).toEqual(["h", "3", "2", "1"]);
+    expect(cells[3].className).toContain("ring-1");
+    expect(cells[0].className).not.toContain("ring-1");
+  });
+
+  it("colours each gene by its relation", () => {
+    const { cells } = renderQuad();
+    expect(cells[0].className).toContain(relationBgClass("mutation"));
+    expect(cells[1].className).toContain(relationBgClass("unknown"));
+    expect(cells[2].className).toContain(relationBgClass("both"));
+    expect(cells[3].className).toContain(relationBgClass("matronDominant"));
+  });
+
+  it("names each cell after its gene and relation", () => {
+    renderQuad({ details: { D: "from matron D" }, rarity: { D: 0.25 } });
+    expect(
+      screen.getByRole("gridcell", {
+        name: "Kitten Body D: savannah (1, value 0) — from matron D · 25% of kitties carry it as D",
+      })
+    ).toBeTruthy();
+    expect(
+      screen.getByRole("gridcell", {
+        name: "Kitten Body R2: chantilly (3, value 2) — not passed on",
+      })
+    ).toBeTruthy();
+  });
+
+  it("marks relations with symbols in colour-blind mode", () => {
+    const { cells } = renderQuad({ colourBlind: true });
+    expect(cells.map((cell) => cell.textContent)).toEqual([
+      "h✱",
+      "3",
+      "2=",
+      "1M",
+    ]);
+  });
+
+  it("reports the gene clicked or chosen with the keyboard", () => {
+    const onGeneClick = vi.fn();
+    const { cells } = renderQuad({ onGeneClick });
+    fireEvent.click(cells[0]);
+    fireEvent.keyDown(cells[3], { key: "Enter" });
+    fireEvent.keyDown(cells[2], { key: "ArrowLeft" });
+    expect(onGeneClick.mock.calls).toEqual([["R3"], ["D"]]);
+  });
+
+  it("keeps only the focused cell in the tab order", () => {
+    const { cells, onCellFocus } = renderQuad();
+    expect(cells.map((cell) => cell.tabIndex)).toEqual([-1, 0, -1, -1]);
+    fireEvent.focus(cells[3]);
+    expect(onCellFocus).toHaveBeenCalledWith({ row: 2, col: 47 });
+  });
+
+  it("shows a placeholder until the trait loads", () => {
+    const { cells } = renderQuad({ trait: undefined, onGeneClick: vi.fn() });
+    expect(cells[3].getAttribute("aria-label")).toBe("Kitten D: not loaded");
+    expect(cells[3].textContent).toBe("");
+  });
+});
+
+describe("genome grid", () => {
+  it("shows matron, sire and kitten genes with their relations", async () => {
+    mockGraphql();
+    render(<KittyExplorer kittyId="900000019" />, {
+      wrapper: LiveFeedProvider,
+    });
+
+    const kitten = await screen.findByRole("row", { name: "Kitten genome" });
+    // The kitten shows together with its parents, mutation included.
+    const eyeType = await within(kitten).findByRole("gridcell", {
+      name: /^Kitten Eye Type D: .* — mutation of /,
+    });
+    const cells = within(kitten).getAllByRole("gridcell");
+    expect(cells).toHaveLength(48);
+    // Trait order follows the Kai string: Purrstige first, Body last.
+    expect(cells[0].getAttribute("aria-label")).toMatch(/^Kitten Purrstige R3/);
+    expect(cells[47].getAttribute("aria-label")).toMatch(/^Kitten Body D/);
+    expect(eyeType.className).toContain(relationBgClass("mutation"));
+
+    for (const row of ["Matron genome", "Sire genome"]) {
+      const parent = await screen.findByRole("row", { name: row });
+      await within(parent).findAllByRole("gridcell", {
+        name: /^(Matron|Sire) Body D: \w+ \(/,
+      });
+      expect(within(parent).getAllByRole("gridcell")).toHaveLength(48);
+    }
+  });
+});
@@ -0,0 +1,992 @@
+"use client";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { useEffect, useMemo, useRef, useState } from "react";
+import { BreedingPlanner } from "@/components/breeding-planner";
+import { FamilyStrip } from "@/components/family-strip";
+import { GenomeExportMenu } from "@/components/genome-export-menu";
+import { GuidedTour } from "@/components/guided-tour";
+import { KittyBadges } from "@/components/kitty-badges";
+import { KittyImage } from "@/components/kitty-image";
+import { LiveFeed } from "@/components/live-feed";
+import { PedigreeTree } from "@/components/pedigree-tree";
+import { ProvenancePanel } from "@/components/provenance-panel";
+import {
+  setOfflineImages,
+  useOfflineImages,
+} from "@/hooks/use-offline-images";
+import { useRarityStats } from "@/hooks/use-rarity-stats";
+import {
+  getBirth,
+  getBirths,
+  getLatest,
+  rememberBirths,
+} from "@/lib/births";
+import {
+  cattributeName,
+  DISPLAY_TRAIT_SLOTS,
+  TRAIT_LABELS,
+} from "@/lib/cattributes";
+import { MUTATION_TIER_LABELS } from "@/lib/gene-science";
+import {
+  GENE_POSITIONS,
+  getTrait,
+  kaiToValue,
+  tryDecodeGenome,
+  type GenePosition,
+  type TraitGenes,
+  type TraitSlot,
+} from "@/lib/genome";
+import type { Birth } from "@/lib/gql";
+import {
+  deriveTraitRelations,
+  describeRelation,
+  parentGeneCategory,
+  relationCategory,
+  type GeneRelation,
+  type ParentRole,
+  type RelationCategory,
+} from "@/lib/inheritance";
+import { loadGenerations } from "@/lib/kitty-meta";
+import { isGenZero } from "@/lib/pedigree";
+import { shortAddress } from "@/lib/portfolio";
+import { traceGene, type GeneTrace } from "@/lib/provenance";
+import type { RandomKitty } from "@/lib/random-kitty";
+import {
+  formatFrequency,
+  geneFrequency,
+  type RarityStats,
+} from "@/lib/rarity";
+import {
+  buildGenomeTour,
+  GENOME_TOUR_ID,
+  hasCompletedTour,
+  markTourCompleted,
+} from "@/lib/tour";
+
+//
+
+export function relationBgClass(category: RelationCategory): string {
+  switch (category) {
+    case "both":
+      return "bg-emerald-200/70 dark:bg-emerald-800/50";
+    case "matronDominant":
+      return "bg-amber-300/70 dark:bg-amber-700/60";
+    case "matronRecessive":
+      return "bg-amber-100/80 dark:bg-amber-900/40";
+    case "sireDominant":
+      return "bg-sky-300/70 dark:bg-sky-700/60";
+    case "sireRecessive":
+      return "bg-sky-100/80 dark:bg-sky-900/40";
+    case "mutation":
+      return "bg-fuchsia-300/70 dark:bg-fuchsia-700/60";
+    case "unknown":
+    default:
+      return "bg-muted";
+  }
+}
+
+export const RELATION_LEGEND: Array<{ category: RelationCategory; label: string }> =
+  [
+    { category: "both", label: "Both parents" },
+    { category: "matronDominant", label: "Matron dominant" },
+    { category: "matronRecessive", label: "Matron recessive" },
+    { category: "sireDominant", label: "Sire dominant" },
+    { category: "sireRecessive", label: "Sire recessive" },
+    { category: "mutation", label: "Mutation" },
+    { category: "unknown", label: "Not passed on / untraced" },
+  ];
+
+// Symbols shown alongside the colours in colour-blind mode, so no relation is
+// told apart by colour alone.
+const RELATION_SYMBOLS: Record<RelationCategory, string> = {
+  both: "=",
+  matronDominant: "M",
+  matronRecessive: "m",
+  sireDominant: "S",
+  sireRecessive: "s",
+  mutation: "✱",
+  unknown: "",
+};
+
+const COLOUR_BLIND_STORAGE_KEY = "kitty-genome:colour-blind";
+
+// Rendered R3 R2 R1 D so the dominant gene sits on the right, matching the
+// conventional Kai string layout.
+const QUAD_POSITIONS = [...GENE_POSITIONS].reverse();
+
+const GRID_ROWS = ["Matron", "Sire", "Kitten"];
+const GRID_COLUMNS = DISPLAY_TRAIT_SLOTS.length * QUAD_POSITIONS.length;
+
+type GridCell = { row: number; col: number };
+
+// Text for one grid cell, shared by its tooltip, its accessible name and the
+// focus detail panel.
+function describeCell(
+  rowLabel: string,
+  trait: TraitGenes,
+  position: GenePosition,
+  category: RelationCategory | null | undefined,
+  detail?: string,
+  frequency?: number
+): string {
+  const gene = trait.genes[position];
+  const name = cattributeName(trait.slot, gene);
+  const relation =
+    detail ??
+    (category
+      ? RELATION_LEGEND.find((it) => it.category === category)?.label
+      : "not passed on");
+  return (
+    `${rowLabel} ${TRAIT_LABELS[trait.slot]} ${position}: ${name ?? "unknown"} (${gene}, value ${kaiToValue(gene)})` +
+    (relation ? ` — ${relation}` : "") +
+    (frequency !== undefined
+      ? ` · ${formatFrequency(frequency)} of kitties carry it as ${position}`
+      : "")
+  );
+}
+
+export function Quad({
+  rowLabel,
+  row,
+  traitIndex,
+  focusedCell,
+  onCellFocus,
+  colourBlind,
+  trait,
+  categories,
+  details,
+  rarity,
+  highlighted,
+  onGeneClick,
+}: {
+  rowLabel: string;
+  row: number;
+  traitIndex: number;
+  focusedCell: GridCell;
+  onCellFocus: (cell: GridCell) => void;
+  colourBlind: boolean;
+  trait?: TraitGenes;
+  categories?: Partial<Record<GenePosition, RelationCategory | null>>;
+  details?: Partial<Record<GenePosition, string>>;
+  rarity?: Partial<Record<GenePosition, number>>;
+  highlighted?: GenePosition[];
+  onGeneClick?: (position: GenePosition) => void;
+}) {
+  const dominantName = trait && cattributeName(trait.slot, trait.genes.D);
+  return (
+    <div role="presentation" className="flex flex-col items-center gap-1">
+      <div role="presentation" className="flex gap-0.5 justify-center">
+        {QUAD_POSITIONS.map((position, i) => {
+          const col = traitIndex * QUAD_POSITIONS.length + i;
+          const c = trait?.genes[position] ?? "";
+          const isDominant = position === "D";
+          const category = categories?.[position];
+          const description = trait
+            ? describeCell(
+                rowLabel,
+                trait,
+                position,
+                category,
+                details?.[position],
+                rarity?.[position]
+              )
+            : `${rowLabel} ${position}: not loaded`;
+          const isHighlighted = highlighted?.includes(position);
+          const isFocused = focusedCell.row === row && focusedCell.col === col;
+          const symbol = colourBlind
+            ? RELATION_SYMBOLS[category ?? "unknown"]
+            : "";
+          return (
+            <div
+              key={position}
+              role="gridcell"
+              aria-label={description}
+              aria-selected={isHighlighted || undefined}
+              tabIndex={isFocused ? 0 : -1}
+              data-position={position}
+              data-cell={`${row}:${col}`}
+              onFocus={() => onCellFocus({ row, col })}
+              onClick={
+                trait && onGeneClick ? () => onGeneClick(position) : undefined
+              }
+              onKeyDown={
+                trait && onGeneClick
+                  ? (e) => {
+                      if (e.key === "Enter" || e.key === " ") {
+                        e.preventDefault();
+                        onGeneClick(position);
+                      }
+                    }
+                  : undefined
+              }
+              title={trait ? description : undefined}
+              className={`relative w-6 h-6 flex items-center justify-center rounded text-xs focus:outline-none focus-visible:ring-2 focus-visible:ring-foreground ${relationBgClass(
+                category ?? "unknown"
+              )} ${
+                isDominant
+                  ? "font-bold text-foreground ring-1 ring-foreground/70"
+                  : "text-foreground/70"
+              } ${isHighlighted ? "ring-2 ring-amber-500" : ""} ${
+                onGeneClick ? "cursor-pointer" : ""
+              }`}
+            >
+              {c}
+              {category === "mutation" && !colourBlind && (
+                <span className="absolute -top-1 -right-1 inline-block h-2 w-2 rounded-full bg-rose-500" />
+              )}
+              {symbol && (
+                <span
+                  aria-hidden="true"
+                  className="absolute -bottom-1 -right-1 text-[8px] leading-none font-bold text-foreground"
+                >
+                  {symbol}
+                </span>
+              )}
+            </div>
+          );
+        })}
+      </div>
+      <div
+        aria-hidden="true"
+        className="text-[10px] leading-tight text-muted-foreground truncate max-w-full"
+      >
+        {trait ? (dominantName ?? "—") : ""}
+        {rarity?.D !== undefined && ` · ${formatFrequency(rarity.D)}`}
+      </div>
+    </div>
+  );
+}
+
+function traitRarity(stats: RarityStats | null, trait?: TraitGenes) {
+  if (!stats || stats.total === 0 || !trait) return undefined;
+  const rarity = {} as Record<GenePosition, number>;
+  for (const position of GENE_POSITIONS) {
+    rarity[position] = geneFrequency(
+      stats,
+      trait.slot,
+      position,
+      trait.genes[position]
+    );
+  }
+  return rarity;
+}
+
+function parentCategories(
+  parent: ParentRole,
+  relations: Record<GenePosition, GeneRelation>
+) {
+  const categories = {} as Record<GenePosition, RelationCategory | null>;
+  for (const position of GENE_POSITIONS) {
+    categories[position] = parentGeneCategory(parent, position, relations);
+  }
+  return categories;
+}
+
+//
+
+//
+
+//
+
+function GenomeRow({
+  label,
+  children,
+}: {
+  label: string;
+  children: React.ReactNode;
+}) {
+  return (
+    <div className="space-y-2">
+      <div
+        aria-hidden="true"
+        className="text-sm font-medium text-muted-foreground"
+      >
+        {label}
+      </div>
+      <div
+        role="row"
+        aria-label={`${label} genome`}
+        className="grid grid-cols-12 gap-3"
+      >
+        {children}
+      </div>
+    </div>
+  );
+}
+
+export function KittyExplorer({ kittyId }: { kittyId?: string }) {
+  const router = useRouter();
+  const { stats: rarityStats } = useRarityStats();
+  const [kitten, setKitten] = useState<Birth | null>(null);
+  const [matron, setMatron] = useState<Birth | null>(null);
+  const [sire, setSire] = useState<Birth | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isTourOpen, setIsTourOpen] = useState(false);
+  const [isTourNew, setIsTourNew] = useState(false);
+  const [focusedCell, setFocusedCell] = useState<GridCell>({ row: 0, col: 0 });
+  const [colourBlind, setColourBlind] = useState(false);
+  const offlineImages = useOfflineImages();
+  const [generations, setGenerations] = useState<Record<string, number>>({});
+  const gridRef = useRef<HTMLDivElement>(null);
+  const [kittyIdInput, setKittyIdInput] = useState("");
+  const [provenance, setProvenance] = useState<{
+    slot: TraitSlot;
+    position: GenePosition;
+    trace: GeneTrace | null;
+    error: string | null;
+  } | null>(null);
+
+  useEffect(() => {
+    if (kittyId) setKittyIdInput(kittyId);
+    let cancelled = false;
+    (async () => {
+      try {
+        setError(null);
+        const item = kittyId
+          ? await getBirth(kittyId)
+          : (await getLatest(1))[0];
+        if (!item) {
+          if (kittyId) throw new Error("Kitty not found");
+          return;
+        }
+
+        // Parents are set with the kitten so relations never mix families.
+        const parentIds = [item.matronId, item.sireId];
+        const parents = await getBirths(parentIds);
+        const byId = Object.fromEntries(
+          parents.map((b) => [b.kittyId, b])
+        ) as Record<string, Birth>;
+        if (cancelled) return;
+        setKitten(item);
+        setMatron(byId[item.matronId] ?? null);
+        setSire(byId[item.sireId] ?? null);
+      } catch (e: unknown) {
+        const message = e instanceof Error ? e.message : String(e);
+        if (!cancelled) setError(message);
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [kittyId]);
+
+  useEffect(() => {
+    const family = [kitten, matron, sire].filter((b): b is Birth => Boolean(b));
+    if (family.length === 0) return;
+    let cancelled = false;
+    loadGenerations(family)
+      .then((found) => {
+        if (!cancelled) setGenerations(Object.fromEntries(found));
+      })
+      .catch(() => {
+        // Generation badges are optional; the cards work without them.
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [kitten, matron, sire]);
+
+  // What an empty parent card shows once the kitten is in.
+  const missingParent = !kitten
+    ? "Loading..."
+    : isGenZero(kitten)
+      ? "No parents (gen 0)"
+      : "Not in the index";
+
+  const traits = useMemo(() => {
+    const m = tryDecodeGenome(matron?.genes);
+    const s = tryDecodeGenome(sire?.genes);
+    const k = tryDecodeGenome(kitten?.genes);
+    return DISPLAY_TRAIT_SLOTS.map((slot) => {
+      const matronTrait = getTrait(m, slot);
+      const sireTrait = getTrait(s, slot);
+      const kittenTrait = getTrait(k, slot);
+      return {
+        slot,
+        label: TRAIT_LABELS[slot],
+        matron: matronTrait,
+        sire: sireTrait,
+        kitten: kittenTrait,
+        relations: deriveTraitRelations(matronTrait, sireTrait, kittenTrait),
+      };
+    });
+  }, [matron?.genes, sire?.genes, kitten?.genes]);
+
+  // Per trait, the genes and relation categories of each grid row, plus the
+  // kitten's relation details.
+  const gridRows = useMemo(
+    () =>
+      traits.map((trait) => {
+        const kittenCategories = {} as Record<GenePosition, RelationCategory>;
+        const details = {} as Record<GenePosition, string>;
+        for (const position of GENE_POSITIONS) {
+          const relation = trait.relations[position];
+          kittenCategories[position] = relationCategory(relation);
+          details[position] = describeRelation(relation);
+        }
+        return {
+          genes: [trait.matron, trait.sire, trait.kitten],
+          categories: [
+            parentCategories("matron", trait.relations),
+            parentCategories("sire", trait.relations),
+            kittenCategories,
+          ],
+          details,
+        };
+      }),
+    [traits]
+  );
+
+  const mutations = traits.flatMap((trait) =>
+    GENE_POSITIONS.flatMap((position) => {
+      const relation = trait.relations[position];
+      return relation.kind === "mutation"
+        ? [{ label: trait.label, position, relation }]
+        : [];
+    })
+  );
+
+  useEffect(() => {
+    setProvenance(null);
+  }, [kitten?.kittyId]);
+
+  async function traceKittenGene(slot: TraitSlot, position: GenePosition) {
+    if (!kitten) return;
+    const isCurrent = (p: typeof provenance) =>
+      p?.slot === slot && p.position === position;
+    setProvenance({ slot, position, trace: null, error: null });
+    try {
+      const trace = await traceGene(kitten, slot, position);
+      setProvenance((p) => (isCurrent(p) ? { ...p!, trace } : p));
+    } catch (e: unknown) {
+      const message = e instanceof Error ? e.message : String(e);
+      setProvenance((p) => (isCurrent(p) ? { ...p!, error: message } : p));
+    }
+  }
+
+  // Cells on the traced path within the three rows shown in the grid.
+  const pathHighlights = useMemo(() => {
+    const highlights: Record<ParentRole | "kitten", GenePosition[]> = {
+      kitten: [],
+      matron: [],
+      sire: [],
+    };
+    if (!provenance) return highlights;
+    highlights.kitten.push(provenance.position);
+    const source = provenance.trace?.steps[0]?.source;
+    if (source?.kind === "parent") {
+      highlights[source.parent].push(source.position);
+    } else if (source?.kind === "mutation") {
+      for (const origin of source.relation.origins) {
+        highlights[origin.parent].push(origin.position);
+      }
+    }
+    return highlights;
+  }, [provenance]);
+
+  useEffect(() => {
+    setIsTourNew(!hasCompletedTour(GENOME_TOUR_ID));
+  }, []);
+
+  const tourSteps = useMemo(
+    () => buildGenomeTour(kitten?.kittyId, traits),
+    [kitten?.kittyId, traits]
+  );
+
+  useEffect(() => {
+    try {
+      setColourBlind(localStorage.getItem(COLOUR_BLIND_STORAGE_KEY) === "on");
+    } catch {
+      // Storage disabled; start with colours only.
+    }
+  }, []);
+
+  function toggleColourBlind(on: boolean) {
+    setColourBlind(on);
+    try {
+      localStorage.setItem(COLOUR_BLIND_STORAGE_KEY, on ? "on" : "off");
+    } catch {
+      // Storage disabled; the setting lasts for this page only.
+    }
+  }
+
+  function onGridKeyDown(e: React.KeyboardEvent) {
+    let { row, col } = focusedCell;
+    switch (e.key) {
+      case "ArrowRight":
+        col = Math.min(GRID_COLUMNS - 1, col + 1);
+        break;
+      case "ArrowLeft":
+        col = Math.max(0, col - 1);
+        break;
+      case "ArrowDown":
+        row = Math.min(GRID_ROWS.length - 1, row + 1);
+        break;
+      case "ArrowUp":
+        row = Math.max(0, row - 1);
+        break;
+      case "Home":
+        col = 0;
+        break;
+      case "End":
+        col = GRID_COLUMNS - 1;
+        break;
+      default:
+        return;
+    }
+    e.preventDefault();
+    setFocusedCell({ row, col });
+    const cell = gridRef.current?.querySelector(
+      `[data-cell="${row}:${col}"]`
+    ) as HTMLElement | null;
+    cell?.focus();
+  }
+
+  const focusedTraitIndex = Math.floor(focusedCell.col / QUAD_POSITIONS.length);
+  const focusedPosition =
+    QUAD_POSITIONS[focusedCell.col % QUAD_POSITIONS.length];
+  const focusedTrait = gridRows[focusedTraitIndex]?.genes[focusedCell.row];
+
+  function closeTour() {
+    setIsTourOpen(false);
+    setIsTourNew(false);
+    markTourCompleted(GENOME_TOUR_ID);
+  }
+
+  function showKitty(id: string) {
+    router.push(`/kitty/${id}`);
+  }
+
+  async function loadRandomAny() {
+    try {
+      setError(null);
+      const res = await fetch("/api/random", { cache: "no-store" });
+      const json = await res.json();
+      if (!res.ok) throw new Error(json.error ?? `Random error ${res.status}`);
+      const { kitten, matron, sire } = json as RandomKitty;
+      // The kitty page would otherwise fetch these again.
+      rememberBirths(
+        [kitten, matron, sire].filter((b): b is Birth => Boolean(b))
+      );
+      showKitty(kitten.kittyId);
+    } catch (e: unknown) {
+      const message = e instanceof Error ? e.message : String(e);
+      setError(message);
+    }
+  }
+
+  return (
+    <div className="min-h-screen p-6">
+      <div className="mx-auto max-w-7xl space-y-8">
+        <header className="flex items-center justify-between">
+          <h1 className="text-3xl font-semibold tracking-tight">
+            CryptoKitties Genome Mapping
+          </h1>
+          <div className="flex items-center gap-2">
+            <input
+              value={kittyIdInput}
+              onChange={(e) => setKittyIdInput(e.target.value)}
+              placeholder="Kitty ID"
+              inputMode="numeric"
+              className="text-xs px-2 py-1 rounded border bg-background w-28"
+            />
+            <button
+              onClick={() => kittyIdInput && showKitty(kittyIdInput)}
+              className="text-xs px-3 py-1 rounded bg-foreground text-background"
+            >
+              Load
+            </button>
+            <button
+              onClick={loadRandomAny}
+              className="text-xs px-3 py-1 rounded border"
+            >
+              Random
+            </button>
+            <Link href="/rarity" className="text-xs px-3 py-1 underline">
+              Rarity
+            </Link>
+            <Link href="/search" className="text-xs px-3 py-1 underline">
+              Search
+            </Link>
+            <Link href="/timeline" className="text-xs px-3 py-1 underline">
+              Timeline
+            </Link>
+            <Link href="/compare" className="text-xs px-3 py-1 underline">
+              Compare
+            </Link>
+            <Link href="/recommend" className="text-xs px-3 py-1 underline">
+              Recommend
+            </Link>
+            <Link
+              href={kitten ? `/sandbox?from=${kitten.kittyId}` : "/sandbox"}
+              className="text-xs px-3 py-1 underline"
+            >
+              Sandbox
+            </Link>
+            <label
+              className="inline-flex items-center gap-1 text-xs text-muted-foreground"
+              title="Draw kitties from their genes instead of loading img.cryptokitties.co"
+            >
+              <input
+                type="checkbox"
+                checked={offlineImages}
+                onChange={(e) => setOfflineImages(e.target.checked)}
+              />
+              Offline images
+            </label>
+          </div>
+        </header>
+
+        {error && <div className="text-sm text-red-600 mb-4">{error}</div>}
+
+        <LiveFeed onFocus={showKitty} />
+
+        {/* Main breeding visualization */}
+        <section className="bg-gradient-to-b from-muted/20 to-muted/5 rounded-xl p-8">
+          <div className="grid grid-cols-[1fr_auto_1fr_auto_1fr] gap-8 items-center">
+            {/* Matron */}
+            <div className="bg-muted/20 rounded-lg p-6 w-80 h-80 flex flex-col items-center justify-center">
+              <div className="text-lg font-medium mb-3">Matron</div>
+              <div className="flex-1 flex items-center justify-center">
+                {matron?.kittyId ? (
+                  <KittyImage
+                    kittyId={matron.kittyId}
+                    alt={`Matron #${matron.kittyId}`}
+                    width={260}
+                    height={260}
+                    className="max-w-full max-h-full object-contain"
+                  />
+                ) : (
+                  <div className="text-sm text-muted-foreground">
+                    {missingParent}
+                  </div>
+                )}
+              </div>
+              <div className="text-sm text-muted-foreground mt-2">
+                ID: {matron?.kittyId || "-"}
+              </div>
+              {matron && (
+                <KittyBadges
+                  kittyId={matron.kittyId}
+                  genome={tryDecodeGenome(matron.genes)}
+                  generation={generations[matron.kittyId]}
+                />
+              )}
+            </div>
+
+            {/* Plus sign */}
+            <div className="flex items-center justify-center">
+              <div className="w-12 h-12 rounded-full bg-primary/10 border-2 border-primary/20 flex items-center justify-center">
+                <span className="text-2xl font-light text-primary">+</span>
+              </div>
+            </div>
+
+            {/* Sire */}
+            <div className="bg-muted/20 rounded-lg p-6 w-80 h-80 flex flex-col items-center justify-center">
+              <div className="text-lg font-medium mb-3">Sire</div>
+              <div className="flex-1 flex items-center justify-center">
+                {sire?.kittyId ? (
+                  <KittyImage
+                    kittyId={sire.kittyId}
+                    alt={`Sire #${sire.kittyId}`}
+                    width={260}
+                    height={260}
+                    className="max-w-full max-h-full object-contain"
+                  />
+                ) : (
+                  <div className="text-sm text-muted-foreground">
+                    {missingParent}
+                  </div>
+                )}
+              </div>
+              <div className="text-sm text-muted-foreground mt-2">
+                ID: {sire?.kittyId || "-"}
+              </div>
+              {sire && (
+                <KittyBadges
+                  kittyId={sire.kittyId}
+                  genome={tryDecodeGenome(sire.genes)}
+                  generation={generations[sire.kittyId]}
+                />
+              )}
+            </div>
+
+            {/* Equals sign */}
+            <div className="flex items-center justify-center">
+              <div className="w-12 h-12 rounded-full bg-primary/10 border-2 border-primary/20 flex items-center justify-center">
+                <span className="text-2xl font-light text-primary">=</span>
+              </div>
+            </div>
+
+            {/* Kitten */}
+            <div className="bg-muted/20 rounded-lg p-6 w-80 h-80 flex flex-col items-center justify-center relative">
+              <div className="text-lg font-medium mb-3">Kitten</div>
+              <div className="flex-1 flex items-center justify-center">
+                {kitten?.kittyId ? (
+                  <KittyImage
+                    kittyId={kitten.kittyId}
+                    alt={`Kitten #${kitten.kittyId}`}
+                    width={260}
+                    height={260}
+                    className="max-w-full max-h-full object-contain"
+                  />
+                ) : (
+                  <div className="text-sm text-muted-foreground">
+                    Loading...
+                  </div>
+                )}
+              </div>
+              <div className="text-sm text-muted-foreground mt-2">
+                ID: {kitten?.kittyId || "-"}
+              </div>
+              {kitten && (
+                <KittyBadges
+                  kittyId={kitten.kittyId}
+                  genome={tryDecodeGenome(kitten.genes)}
+                  generation={generations[kitten.kittyId]}
+                />
+              )}
+              {kitten?.owner && (
+                <Link
+                  href={`/owner/${kitten.owner}`}
+                  title={kitten.owner}
+                  className="text-xs text-muted-foreground underline"
+                >
+                  Owner {shortAddress(kitten.owner)}
+                </Link>
+              )}
+              {mutations.length > 0 && (
+                <div className="absolute top-4 right-4 flex flex-col items-end gap-1">
+                  {mutations.map((m) => (
+                    <span
+                      key={`${m.label}:${m.position}`}
+                      title={describeRelation(m.relation)}
+                      className="inline-flex items-center gap-1 rounded-full bg-rose-500 px-2 py-0.5 text-[10px] font-medium text-white"
+                    >
+                      {m.label}: {MUTATION_TIER_LABELS[m.relation.tier]}
+                    </span>
+                  ))}
+                </div>
+              )}
+            </div>
+          </div>
+        </section>
+
+        <FamilyStrip kitten={kitten} onSelect={showKitty} />
+
+        {/* Expanded genome mapping section */}
+        <section className="bg-gradient-to-b from-muted/10 to-muted/5 rounded-xl p-8">
+          <div className="text-center mb-6">
+            <h2 className="text-xl font-semibold mb-2">Genome Mapping</h2>
+            <p className="text-sm text-muted-foreground">
+              Trace how genetic traits are inherited from parents to offspring.
+              Click a kitten gene to follow it back through its ancestors.
+            </p>
+          </div>
+
+          {/* Trait labels */}
+          <div className="grid grid-cols-12 gap-3 text-center mb-6">
+            {traits.map((trait, idx) => (
+              <div
+                key={idx}
+                className="text-xs text-muted-foreground font-medium px-2 py-1 bg-muted/30 rounded"
+              >
+                {trait.label}
+              </div>
+            ))}
+          </div>
+
+          {/* Expanded genome strips */}
+          <div
+            ref={gridRef}
+            role="grid"
+            aria-label="Genome mapping: matron, sire and kitten genes by trait"
+            aria-rowcount={GRID_ROWS.length}
+            aria-colcount={GRID_COLUMNS}
+            onKeyDown={onGridKeyDown}
+            className="bg-white/50 dark:bg-black/20 rounded-lg p-6 space-y-4"
+          >
+            <div role="rowgroup" data-tour="parents" className="space-y-4">
+              {GRID_ROWS.slice(0, 2).map((rowLabel, row) => (
+                <GenomeRow key={rowLabel} label={rowLabel}>
+                  {traits.map((trait, idx) => (
+                    <div
+                      key={idx}
+                      role="presentation"
+                      className="rounded-md p-2 bg-muted/20"
+                      data-genome={rowLabel.toLowerCase()}
+                      data-trait={trait.label}
+                    >
+                      <Quad
+                        rowLabel={rowLabel}
+                        row={row}
+                        traitIndex={idx}
+                        focusedCell={focusedCell}
+                        onCellFocus={setFocusedCell}
+                        colourBlind={colourBlind}
+                        trait={gridRows[idx].genes[row]}
+                        rarity={traitRarity(
+                          rarityStats,
+                          gridRows[idx].genes[row]
+                        )}
+                        categories={gridRows[idx].categories[row]}
+                        highlighted={
+                          provenance?.slot === trait.slot
+                            ? pathHighlights[row === 0 ? "matron" : "sire"]
+                            : undefined
+                        }
+                      />
+                    </div>
+                  ))}
+                </GenomeRow>
+              ))}
+            </div>
+
+            <div role="rowgroup">
+              <GenomeRow label="Kitten">
+                {traits.map((trait, idx) => (
+                  <div
+                    key={idx}
+                    role="presentation"
+                    className="rounded-md p-2 bg-muted/20"
+                    data-genome="kitten"
+                    data-trait={trait.label}
+                  >
+                    <Quad
+                      rowLabel="Kitten"
+                      row={2}
+                      traitIndex={idx}
+                      focusedCell={focusedCell}
+                      onCellFocus={setFocusedCell}
+                      colourBlind={colourBlind}
+                      trait={trait.kitten}
+                      rarity={traitRarity(rarityStats, trait.kitten)}
+                      categories={gridRows[idx].categories[2]}
+                      details={gridRows[idx].details}
+                      highlighted={
+                        provenance?.slot === trait.slot
+                          ? pathHighlights.kitten
+                          : undefined
+                      }
+                      onGeneClick={(position) =>
+                        traceKittenGene(trait.slot, position)
+                      }
+                    />
+                  </div>
+                ))}
+              </GenomeRow>
+            </div>
+          </div>
+
+          {/* Focused cell, as text */}
+          <div
+            aria-live="polite"
+            className="mt-3 min-h-5 text-xs text-muted-foreground text-center"
+          >
+            {focusedTrait &&
+              describeCell(
+                GRID_ROWS[focusedCell.row],
+                focusedTrait,
+                focusedPosition,
+                gridRows[focusedTraitIndex].categories[focusedCell.row][
+                  focusedPosition
+                ],
+                focusedCell.row === 2
+                  ? gridRows[focusedTraitIndex].details[focusedPosition]
+                  : undefined,
+                traitRarity(rarityStats, focusedTrait)?.[focusedPosition]
+              )}
+          </div>
+
+          {/* Legend */}
+          <div className="mt-6 text-center">
+            <div className="text-sm text-muted-foreground mb-3">
+              Dominant gene (outlined, rightmost) is visible in appearance •
+              Kitten genes are coloured by where they came from, parent genes
+              by whether they were passed on
+            </div>
+            <div className="flex flex-wrap justify-center gap-4">
+              {RELATION_LEGEND.map((it) => (
+                <div
+                  key={it.category}
+                  data-legend={it.category}
+                  className="flex items-center gap-2 text-sm"
+                >
+                  <span
+                    className={`inline-flex h-3 w-4 items-center justify-center rounded text-[8px] font-bold ${relationBgClass(
+                      it.category
+                    )}`}
+                  >
+                    {colourBlind && RELATION_SYMBOLS[it.category]}
+                  </span>
+                  <span className="text-muted-foreground">{it.label}</span>
+                </div>
+              ))}
+              {!colourBlind && (
+                <div className="flex items-center gap-2 text-sm">
+                  <span className="inline-block h-2 w-2 rounded-full bg-rose-500" />
+                  <span className="text-muted-foreground">Mutated gene</span>
+                </div>
+              )}
+            </div>
+            <label className="mt-3 inline-flex items-center gap-1 text-xs text-muted-foreground">
+              <input
+                type="checkbox"
+                checked={colourBlind}
+                onChange={(e) => toggleColourBlind(e.target.checked)}
+              />
+              Colour-blind symbols
+            </label>
+          </div>
+
+          {/* Export and explain actions at the bottom of the mapping section */}
+          <div className="mt-6 flex items-center justify-between">
+            <GenomeExportMenu family={{ matron, sire, kitten }} />
+            <div className="flex items-center gap-3">
+              {isTourNew && (
+                <span className="text-xs text-muted-foreground">
+                  New here? Take the tour
+                </span>
+              )}
+              <button
+                onClick={() => setIsTourOpen(true)}
+                className="text-xs px-3 py-1 rounded bg-foreground text-background"
+              >
+                Explain Genome to me
+              </button>
+            </div>
+          </div>
+        </section>
+
+        <PedigreeTree
+          kittyId={kitten?.kittyId}
+          onSelect={(id) => {
+            window.scrollTo({ top: 0, behavior: "smooth" });
+            showKitty(id);
+          }}
+        />
+
+        <BreedingPlanner
+          defaultMatronId={matron?.kittyId}
+          defaultSireId={sire?.kittyId}
+        />
+      </div>
+
+      {provenance && (
+        <ProvenancePanel
+          trace={provenance.trace}
+          isLoading={!provenance.trace && !provenance.error}
+          error={provenance.error}
+          onSelect={(id) => {
+            window.scrollTo({ top: 0, behavior: "smooth" });
+            showKitty(id);
+          }}
+          onClose={() => setProvenance(null)}
+        />
+      )}
+
+      {isTourOpen && <GuidedTour steps={tourSteps} onClose={closeTour} />}
+    </div>
+  );
+}
@@ -0,0 +1,84 @@
+"use client";
+import Image from "next/image";
+import { useEffect, useState } from "react";
+import { useOfflineImages } from "@/hooks/use-offline-images";
+import { getBirth } from "@/lib/births";
+import { tryDecodeGenome, type Genome } from "@/lib/genome";
+import { kittyImageUrl } from "@/lib/gql";
+import { kittySvgDataUrl } from "@/lib/kitty-render";
+
+// A kitty's official image, drawn locally from its genes when the image
+// can't be loaded or offline images are on. Pass `genome` alone to preview a
+// genome no kitty has been born with.
+export function KittyImage({
+  kittyId,
+  genome,
+  alt,
+  width,
+  height,
+  className,
+}: {
+  kittyId?: string;
+  genome?: Genome | null;
+  alt: string;
+  width: number;
+  height: number;
+  className?: string;
+}) {
+  const offline = useOfflineImages();
+  const [failedId, setFailedId] = useState<string | null>(null);
+  const [loaded, setLoaded] = useState<{ kittyId: string; genome: Genome }>();
+  const isLocal = offline || !kittyId || failedId === kittyId;
+  const localGenome =
+    genome ?? (loaded?.kittyId === kittyId ? loaded?.genome : undefined);
+
+  // Without a genome to draw, look the kitty up; usually it's cached.
+  useEffect(() => {
+    if (!isLocal || genome || !kittyId) return;
+    let cancelled = false;
+    getBirth(kittyId)
+      .then((birth) => {
+        const found = tryDecodeGenome(birth?.genes);
+        if (!cancelled && found) setLoaded({ kittyId, genome: found });
+      })
+      .catch(() => {
+        // Leave the placeholder; there's nothing to draw.
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [isLocal, genome, kittyId]);
+
+  if (!isLocal) {
+    return (
+      <Image
+        src={kittyImageUrl(kittyId)!}
+        alt={alt}
+        width={width}
+        height={height}
+        className={className}
+        onError={() => setFailedId(kittyId)}
+      />
+    );
+  }
+  if (!localGenome) {
+    return (
+      <div
+        role="img"
+        aria-label={alt}
+        style={{ width, height }}
+        className={`${className ?? ""} rounded-full bg-muted/40`}
+      />
+    );
+  }
+  return (
+    <Image
+      src={kittySvgDataUrl(localGenome)}
+      alt={alt}
+      width={width}
+      height={height}
+      className={className}
+      unoptimized
+    />
+  );
+}
@@ -0,0 +1,204 @@
+"use client";
+import { useRouter } from "next/navigation";
+import { createContext, useContext, useEffect, useRef, useState } from "react";
+import { KittyImage } from "@/components/kitty-image";
+import { getBirths } from "@/lib/births";
+import { TRAIT_LABELS } from "@/lib/cattributes";
+import { MUTATION_TIER_LABELS } from "@/lib/gene-science";
+import { tryDecodeGenome } from "@/lib/genome";
+import type { Birth } from "@/lib/gql";
+import {
+  describeRelation,
+  findMutations,
+  type TraitMutation,
+} from "@/lib/inheritance";
+import { subscribeToBirths, type LiveStatus } from "@/lib/live-births";
+
+const MAX_FEED_ITEMS = 50;
+
+const STATUS_LABELS: Record<LiveStatus, string> = {
+  connecting: "Connecting…",
+  live: "Live",
+  polling: "Polling",
+  closed: "Off",
+};
+
+async function loadMutations(birth: Birth): Promise<TraitMutation[]> {
+  const parents = await getBirths([birth.matronId, birth.sireId]);
+  const matron = parents.find((b) => b.kittyId === birth.matronId);
+  const sire = parents.find((b) => b.kittyId === birth.sireId);
+  const k = tryDecodeGenome(birth.genes);
+  const m = tryDecodeGenome(matron?.genes);
+  const s = tryDecodeGenome(sire?.genes);
+  if (!k || !m || !s) return [];
+  return findMutations(k, m, s);
+}
+
+type LiveFeedState = {
+  isLive: boolean;
+  setIsLive: (update: (isLive: boolean) => boolean) => void;
+  autoFocus: boolean;
+  setAutoFocus: (autoFocus: boolean) => void;
+  status: LiveStatus;
+  feed: Birth[];
+  mutations: Record<string, TraitMutation[]>;
+};
+
+const LiveFeedContext = createContext<LiveFeedState | null>(null);
+
+// Holds the feed and its subscription above the explorer pages, so they
+// survive the navigation that focusing a kitty, or auto-focus, does.
+export function LiveFeedProvider({ children }: { children: React.ReactNode }) {
+  const router = useRouter();
+  const [isLive, setIsLive] = useState(false);
+  const [autoFocus, setAutoFocus] = useState(false);
+  const [status, setStatus] = useState<LiveStatus>("closed");
+  const [feed, setFeed] = useState<Birth[]>([]);
+  const [mutations, setMutations] = useState<Record<string, TraitMutation[]>>(
+    {}
+  );
+  const seen = useRef(new Set<string>());
+  const autoFocusRef = useRef(autoFocus);
+  const routerRef = useRef(router);
+
+  useEffect(() => {
+    autoFocusRef.current = autoFocus;
+    routerRef.current = router;
+  }, [autoFocus, router]);
+
+  useEffect(() => {
+    if (!isLive) return;
+    let isFirstDelivery = true;
+    const stop = subscribeToBirths((births) => {
+      // The first delivery is the current backlog, not new births, even
+      // when a restarted feed has already seen all of it.
+      const isBacklog = isFirstDelivery;
+      isFirstDelivery = false;
+      const fresh = births.filter((b) => !seen.current.has(b.kittyId));
+      if (fresh.length === 0) return;
+      for (const b of fresh) seen.current.add(b.kittyId);
+      setFeed((prev) => [...fresh, ...prev].slice(0, MAX_FEED_ITEMS));
+      for (const b of fresh) {
+        loadMutations(b)
+          .then((found) =>
+            setMutations((prev) => ({ ...prev, [b.kittyId]: found }))
+          )
+          .catch(() => {});
+      }
+      if (!isBacklog && autoFocusRef.current) {
+        routerRef.current.push(`/kitty/${fresh[0].kittyId}`);
+      }
+    }, setStatus);
+    return stop;
+  }, [isLive]);
+
+  return (
+    <LiveFeedContext.Provider
+      value={{
+        isLive,
+        setIsLive,
+        autoFocus,
+        setAutoFocus,
+        status,
+        feed,
+        mutations,
+      }}
+    >
+      {children}
+    </LiveFeedContext.Provider>
+  );
+}
+
+export function LiveFeed({ onFocus }: { onFocus: (kittyId: string) => void }) {
+  const live = useContext(LiveFeedContext);
+  if (!live) throw new Error("LiveFeed needs a LiveFeedProvider above it");
+  const {
+    isLive,
+    setIsLive,
+    autoFocus,
+    setAutoFocus,
+    status,
+    feed,
+    mutations,
+  } = live;
+
+  return (
+    <section className="bg-gradient-to-b from-muted/10 to-muted/5 rounded-xl p-4">
+      <div className="flex items-center justify-between mb-3">
+        <div className="flex items-center gap-3">
+          <h2 className="text-sm font-semibold">Live births</h2>
+          <span className="flex items-center gap-1 text-xs text-muted-foreground">
+            <span
+              className={`inline-block h-2 w-2 rounded-full ${
+                status === "live"
+                  ? "bg-emerald-500"
+                  : status === "closed"
+                    ? "bg-muted-foreground/40"
+                    : "bg-amber-400"
+              }`}
+            />
+            {STATUS_LABELS[status]}
+          </span>
+        </div>
+        <div className="flex items-center gap-3 text-xs">
+          <label className="flex items-center gap-1 text-muted-foreground">
+            <input
+              type="checkbox"
+              checked={autoFocus}
+              onChange={(e) => setAutoFocus(e.target.checked)}
+            />
+            Auto-focus newest
+          </label>
+          <button
+            onClick={() => setIsLive((v) => !v)}
+            className={
+              isLive
+                ? "px-3 py-1 rounded border"
+                : "px-3 py-1 rounded bg-foreground text-background"
+            }
+          >
+            {isLive ? "Stop" : "Go live"}
+          </button>
+        </div>
+      </div>
+
+      {feed.length > 0 ? (
+        <div className="flex gap-3 overflow-x-auto pb-2">
+          {feed.map((birth) => (
+            <button
+              key={birth.kittyId}
+              onClick={() => onFocus(birth.kittyId)}
+              className="shrink-0 w-28 rounded-md bg-muted/20 hover:bg-muted/50 p-2 flex flex-col items-center"
+            >
+              <KittyImage
+                kittyId={birth.kittyId}
+                alt={`Kitty #${birth.kittyId}`}
+                width={72}
+                height={72}
+                className="object-contain"
+              />
+              <div className="text-xs font-medium mt-1">#{birth.kittyId}</div>
+              <div className="flex flex-wrap justify-center gap-0.5 mt-1">
+                {(mutations[birth.kittyId] ?? []).map((m) => (
+                  <span
+                    key={`${m.slot}:${m.position}`}
+                    title={`${TRAIT_LABELS[m.slot]}: ${describeRelation(
+                      m.relation
+                    )}`}
+                    className="rounded-full bg-rose-500 px-1.5 text-[9px] text-white"
+                  >
+                    {MUTATION_TIER_LABELS[m.relation.tier]}
+                  </span>
+                ))}
+              </div>
+            </button>
+          ))}
+        </div>
+      ) : (
+        <div className="text-xs text-muted-foreground">
+          {isLive ? "Waiting for births…" : "Go live to follow new births"}
+        </div>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,216 @@
+"use client";
+import Link from "next/link";
+import { useEffect, useMemo, useState } from "react";
+import { KittyBadges } from "@/components/kitty-badges";
+import { KittyImage } from "@/components/kitty-image";
+import { useRarityStats } from "@/hooks/use-rarity-stats";
+import { getBirthsByOwner } from "@/lib/births";
+import { cattributeName, TRAIT_LABELS } from "@/lib/cattributes";
+import { MUTATION_TIER_LABELS } from "@/lib/gene-science";
+import { tryDecodeGenome } from "@/lib/genome";
+import type { Birth } from "@/lib/gql";
+import { loadGenerations, specialName } from "@/lib/kitty-meta";
+import {
+  kittyHighlights,
+  RARE_FREQUENCY,
+  shortAddress,
+  tallyCattributes,
+} from "@/lib/portfolio";
+import { formatFrequency } from "@/lib/rarity";
+
+type Filter = "all" | "rare" | "mutation" | "genZero" | "special";
+
+const FILTER_LABELS: Record<Filter, string> = {
+  all: "All",
+  rare: "Rare",
+  mutation: "Mewtations",
+  genZero: "Gen 0",
+  special: "Fancy",
+};
+
+const TOP_CATTRIBUTES = 24;
+
+export function OwnerPortfolio({ address }: { address: string }) {
+  const { stats } = useRarityStats();
+  const [births, setBirths] = useState<Birth[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [filter, setFilter] = useState<Filter>("all");
+  const [generations, setGenerations] = useState<Map<string, number>>(
+    new Map()
+  );
+
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      try {
+        setError(null);
+        const found = await getBirthsByOwner(address);
+        if (cancelled) return;
+        setBirths(found);
+        const known = await loadGenerations(found);
+        if (!cancelled) setGenerations(known);
+      } catch (e: unknown) {
+        const message = e instanceof Error ? e.message : String(e);
+        if (!cancelled) setError(message);
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [address]);
+
+  const kitties = useMemo(
+    () =>
+      (births ?? []).flatMap((birth) => {
+        const genome = tryDecodeGenome(birth.genes);
+        return genome ? [{ birth, genome }] : [];
+      }),
+    [births]
+  );
+
+  const tallies = useMemo(
+    () => tallyCattributes(kitties.map((k) => k.genome)),
+    [kitties]
+  );
+
+  const cards = useMemo(
+    () =>
+      kitties.map(({ birth, genome }) => ({
+        birth,
+        genome,
+        highlights: kittyHighlights(genome, stats),
+      })),
+    [kitties, stats]
+  );
+
+  const visible = cards.filter(({ birth, genome, highlights }) => {
+    if (filter === "mutation") return highlights.maxTier > 0;
+    if (filter === "genZero") return generations.get(birth.kittyId) === 0;
+    if (filter === "special") {
+      return specialName(birth.kittyId, genome) !== null;
+    }
+    if (filter === "rare") {
+      return (highlights.rarest?.frequency ?? 1) < RARE_FREQUENCY;
+    }
+    return true;
+  });
+
+  return (
+    <div className="min-h-screen p-6">
+      <div className="mx-auto max-w-7xl space-y-8">
+        <header className="flex items-center justify-between">
+          <h1 className="text-3xl font-semibold tracking-tight" title={address}>
+            Owner {shortAddress(address)}
+          </h1>
+          <Link href="/" className="text-xs underline">
+            Genome mapping
+          </Link>
+        </header>
+
+        {error && <div className="text-sm text-red-600 mb-4">{error}</div>}
+
+        <section className="bg-gradient-to-b from-muted/10 to-muted/5 rounded-xl p-8 space-y-4">
+          <div className="flex items-center justify-between">
+            <h2 className="text-sm font-semibold">
+              {births
+                ? `${kitties.length} kitties born to this address`
+                : "Loading…"}
+            </h2>
+            <div className="flex items-center gap-2 text-xs">
+              {(Object.keys(FILTER_LABELS) as Filter[]).map((f) => (
+                <button
+                  key={f}
+                  onClick={() => setFilter(f)}
+                  className={
+                    filter === f
+                      ? "px-2 py-0.5 rounded bg-foreground text-background"
+                      : "px-2 py-0.5 rounded border"
+                  }
+                >
+                  {FILTER_LABELS[f]}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="grid grid-cols-6 gap-4">
+            {visible.map(({ birth, genome, highlights }) => {
+              const isRare =
+                (highlights.rarest?.frequency ?? 1) < RARE_FREQUENCY;
+              return (
+                <Link
+                  key={birth.kittyId}
+                  href={`/kitty/${birth.kittyId}`}
+                  className={`rounded-md bg-muted/20 hover:bg-muted/50 p-2 flex flex-col items-center ${
+                    isRare ? "ring-2 ring-amber-400" : ""
+                  }`}
+                >
+                  <KittyImage
+                    kittyId={birth.kittyId}
+                    alt={`Kitty #${birth.kittyId}`}
+                    width={96}
+                    height={96}
+                    className="object-contain"
+                  />
+                  <div className="text-xs font-medium mt-1">
+                    #{birth.kittyId}
+                  </div>
+                  <KittyBadges
+                    kittyId={birth.kittyId}
+                    genome={genome}
+                    generation={generations.get(birth.kittyId)}
+                  />
+                  <div className="flex flex-wrap justify-center gap-0.5 mt-1">
+                    {highlights.maxTier > 0 && (
+                      <span className="rounded-full bg-rose-500 px-1.5 text-[9px] text-white">
+                        {MUTATION_TIER_LABELS[highlights.maxTier]}
+                      </span>
+                    )}
+                    {isRare && highlights.rarest && (
+                      <span
+                        title={`${TRAIT_LABELS[highlights.rarest.slot]} ${
+                          highlights.rarest.gene
+                        }`}
+                        className="rounded-full bg-amber-400 px-1.5 text-[9px] text-black"
+                      >
+                        {cattributeName(
+                          highlights.rarest.slot,
+                          highlights.rarest.gene
+                        ) ?? highlights.rarest.gene}{" "}
+                        {formatFrequency(highlights.rarest.frequency)}
+                      </span>
+                    )}
+                  </div>
+                </Link>
+              );
+            })}
+          </div>
+        </section>
+
+        {tallies.length > 0 && (
+          <section className="bg-gradient-to-b from-muted/10 to-muted/5 rounded-xl p-8">
+            <h2 className="text-sm font-semibold mb-4">Cattributes</h2>
+            <div className="grid grid-cols-4 gap-x-8 gap-y-1 text-xs">
+              {tallies.slice(0, TOP_CATTRIBUTES).map((t) => (
+                <div
+                  key={`${t.slot}:${t.name}`}
+                  className="flex items-center justify-between gap-2"
+                >
+                  <span>
+                    {t.name}{" "}
+                    <span className="text-muted-foreground">
+                      {TRAIT_LABELS[t.slot]}
+                    </span>
+                  </span>
+                  <span className="text-muted-foreground">
+                    {t.dominant} shown · {t.hidden} hidden
+                  </span>
+                </div>
+              ))}
+            </div>
+          </section>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,165 @@
+"use client";
+import { ChevronDown, ChevronRight } from "lucide-react";
+import { useEffect, useState } from "react";
+import { KittyImage } from "@/components/kitty-image";
+import {
+  buildPedigree,
+  isGenZero,
+  loadAncestry,
+  type PedigreeNode,
+} from "@/lib/pedigree";
+
+const DEPTH_OPTIONS = [1, 2, 3, 4, 5, 6];
+
+function PedigreeBranch({
+  node,
+  role,
+  onSelect,
+}: {
+  node: PedigreeNode;
+  role: string;
+  onSelect: (kittyId: string) => void;
+}) {
+  const [isOpen, setIsOpen] = useState(true);
+  const hasParents = Boolean(node.matron || node.sire);
+  const genZero = node.birth ? isGenZero(node.birth) : false;
+
+  return (
+    <li className="space-y-2">
+      <div className="flex items-center gap-2">
+        {hasParents ? (
+          <button
+            onClick={() => setIsOpen((v) => !v)}
+            aria-label={isOpen ? "Collapse" : "Expand"}
+            className="text-muted-foreground"
+          >
+            {isOpen ? (
+              <ChevronDown className="h-4 w-4" />
+            ) : (
+              <ChevronRight className="h-4 w-4" />
+            )}
+          </button>
+        ) : (
+          <span className="inline-block w-4" />
+        )}
+        <button
+          onClick={() => onSelect(node.kittyId)}
+          className="flex items-center gap-2 rounded-md px-2 py-1 bg-muted/20 hover:bg-muted/50 text-left"
+        >
+          <KittyImage
+            kittyId={node.kittyId}
+            alt={`${role} #${node.kittyId}`}
+            width={40}
+            height={40}
+            className="object-contain"
+          />
+          <div className="text-xs">
+            <div className="text-muted-foreground">{role}</div>
+            <div className="font-medium">#{node.kittyId}</div>
+          </div>
+          {genZero && (
+            <span className="text-[10px] px-1.5 py-0.5 rounded bg-foreground text-background">
+              Gen 0
+            </span>
+          )}
+          {!node.birth && (
+            <span className="text-[10px] text-muted-foreground">
+              not indexed
+            </span>
+          )}
+        </button>
+      </div>
+      {hasParents && isOpen && (
+        <ul className="ml-6 pl-4 border-l space-y-2">
+          {node.matron && (
+            <PedigreeBranch
+              node={node.matron}
+              role="Matron"
+              onSelect={onSelect}
+            />
+          )}
+          {node.sire && (
+            <PedigreeBranch
+              node={node.sire}
+              role="Sire"
+              onSelect={onSelect}
+            />
+          )}
+        </ul>
+      )}
+    </li>
+  );
+}
+
+export function PedigreeTree({
+  kittyId,
+  onSelect,
+}: {
+  kittyId?: string;
+  onSelect: (kittyId: string) => void;
+}) {
+  const [depth, setDepth] = useState(3);
+  const [tree, setTree] = useState<PedigreeNode | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  useEffect(() => {
+    if (!kittyId) return;
+    let cancelled = false;
+    (async () => {
+      try {
+        setError(null);
+        setIsLoading(true);
+        const births = await loadAncestry(kittyId, depth);
+        if (!cancelled) setTree(buildPedigree(kittyId, births, depth));
+      } catch (e: unknown) {
+        const message = e instanceof Error ? e.message : String(e);
+        if (!cancelled) setError(message);
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [kittyId, depth]);
+
+  return (
+    <section className="bg-gradient-to-b from-muted/10 to-muted/5 rounded-xl p-8">
+      <div className="flex items-center justify-between mb-6">
+        <div>
+          <h2 className="text-xl font-semibold mb-1">Pedigree</h2>
+          <p className="text-sm text-muted-foreground">
+            Click any ancestor to make it the focus kitten
+          </p>
+        </div>
+        <label className="flex items-center gap-2 text-xs text-muted-foreground">
+          Generations
+          <select
+            value={depth}
+            onChange={(e) => setDepth(Number(e.target.value))}
+            className="text-xs px-2 py-1 rounded border bg-background"
+          >
+            {DEPTH_OPTIONS.map((d) => (
+              <option key={d} value={d}>
+                {d}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      {error && <div className="text-sm text-red-600 mb-4">{error}</div>}
+
+      {tree ? (
+        <ul className={isLoading ? "opacity-50" : undefined}>
+          <PedigreeBranch node={tree} role="Kitten" onSelect={onSelect} />
+        </ul>
+      ) : (
+        <div className="text-sm text-muted-foreground">
+          {isLoading ? "Loading..." : "No kitty selected"}
+        </div>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,112 @@
+"use client";
+import { X } from "lucide-react";
+import { KittyImage } from "@/components/kitty-image";
+import { cattributeName, TRAIT_LABELS } from "@/lib/cattributes";
+import { MUTATION_TIER_LABELS } from "@/lib/gene-science";
+import type { GeneTrace, ProvenanceSource } from "@/lib/provenance";
+
+function describeSource(source: ProvenanceSource): string {
+  switch (source.kind) {
+    case "parent":
+      return (
+        `Inherited from ${source.parent} #${source.kittyId} ` +
+        `(${source.position})` +
+        (source.shared ? ", other parent also carried it" : "")
+      );
+    case "mutation":
+      return (
+        `Introduced by mutation of matron #${source.matronId} ` +
+        `${source.relation.origins[0].gene} and sire #${source.sireId} ` +
+        `${source.relation.origins[1].gene} ` +
+        `(${MUTATION_TIER_LABELS[source.relation.fromTier]} → ` +
+        `${MUTATION_TIER_LABELS[source.relation.tier]})`
+      );
+    case "genZero":
+      return "Gen 0 kitty: first carrier";
+    case "depthLimit":
+      return "Trace stopped at the depth limit";
+    case "untraced":
+    default:
+      return "Parents not indexed or gene not found in them";
+  }
+}
+
+export function ProvenancePanel({
+  trace,
+  isLoading,
+  error,
+  onSelect,
+  onClose,
+}: {
+  trace: GeneTrace | null;
+  isLoading: boolean;
+  error: string | null;
+  onSelect: (kittyId: string) => void;
+  onClose: () => void;
+}) {
+  const first = trace?.steps[0];
+  return (
+    <aside className="fixed top-0 right-0 z-40 h-full w-96 overflow-y-auto border-l bg-background p-6 shadow-lg">
+      <div className="flex items-start justify-between mb-4">
+        <div>
+          <h2 className="text-lg font-semibold">Gene provenance</h2>
+          {trace && first && (
+            <p className="text-xs text-muted-foreground">
+              {TRAIT_LABELS[trace.slot]} {first.position}: {first.gene}
+              {cattributeName(trace.slot, first.gene) &&
+                ` (${cattributeName(trace.slot, first.gene)})`}
+            </p>
+          )}
+        </div>
+        <button
+          onClick={onClose}
+          aria-label="Close"
+          className="text-muted-foreground"
+        >
+          <X className="h-4 w-4" />
+        </button>
+      </div>
+
+      {error && <div className="text-sm text-red-600 mb-4">{error}</div>}
+      {isLoading && (
+        <div className="text-sm text-muted-foreground">Tracing...</div>
+      )}
+
+      {trace && (
+        <ol className="space-y-3 border-l pl-4">
+          {trace.steps.map((step, idx) => (
+            <li key={`${step.kittyId}:${idx}`} className="relative">
+              <span
+                className={`absolute -left-[21px] top-3 inline-block h-2.5 w-2.5 rounded-full ${
+                  step.source.kind === "mutation"
+                    ? "bg-rose-500"
+                    : "bg-amber-400"
+                }`}
+              />
+              <button
+                onClick={() => onSelect(step.kittyId)}
+                className="flex items-center gap-3 rounded-md px-2 py-1 hover:bg-muted/50 text-left"
+              >
+                <KittyImage
+                  kittyId={step.kittyId}
+                  alt={`Kitty #${step.kittyId}`}
+                  width={40}
+                  height={40}
+                  className="object-contain"
+                />
+                <div className="text-xs">
+                  <div className="font-medium">
+                    #{step.kittyId} · {step.position} · {step.gene}
+                  </div>
+                  <div className="text-muted-foreground">
+                    {describeSource(step.source)}
+                  </div>
+                </div>
+              </button>
+            </li>
+          ))}
+        </ol>
+      )}
+    </aside>
+  );
+}
@@ -0,0 +1,121 @@
+"use client";
+import Link from "next/link";
+import { useState } from "react";
+import { useRarityStats } from "@/hooks/use-rarity-stats";
+import {
+  cattributeName,
+  DISPLAY_TRAIT_SLOTS,
+  TRAIT_LABELS,
+} from "@/lib/cattributes";
+import {
+  GENE_POSITIONS,
+  KAI_ALPHABET,
+  type GenePosition,
+  type TraitSlot,
+} from "@/lib/genome";
+import { formatFrequency, type RarityStats } from "@/lib/rarity";
+
+function Histogram({
+  stats,
+  slot,
+  position,
+}: {
+  stats: RarityStats;
+  slot: TraitSlot;
+  position: GenePosition;
+}) {
+  const counts = stats.counts[slot][position];
+  const max = Math.max(1, ...counts);
+  return (
+    <div className="bg-muted/20 rounded-lg p-4">
+      <div className="text-sm font-medium mb-3">{TRAIT_LABELS[slot]}</div>
+      <div className="flex items-end gap-0.5 h-32">
+        {counts.map((count, value) => {
+          const gene = KAI_ALPHABET[value];
+          const name = cattributeName(slot, gene) ?? "unknown";
+          return (
+            <div
+              key={gene}
+              title={`${gene} ${name}: ${formatFrequency(
+                count / stats.total
+              )} (${count})`}
+              className="flex-1 bg-foreground/70 hover:bg-amber-500 rounded-t"
+              style={{ height: `${(count / max) * 100}%` }}
+            />
+          );
+        })}
+      </div>
+      <div className="flex gap-0.5 mt-1">
+        {KAI_ALPHABET.split("").map((gene) => (
+          <div
+            key={gene}
+            className="flex-1 text-center text-[9px] text-muted-foreground"
+          >
+            {gene}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+export function RarityView() {
+  const { stats, isLoading, error } = useRarityStats({ collect: true });
+  const [position, setPosition] = useState<GenePosition>("D");
+
+  return (
+    <div className="min-h-screen p-6">
+      <div className="mx-auto max-w-7xl space-y-8">
+        <header className="flex items-center justify-between">
+          <h1 className="text-3xl font-semibold tracking-tight">
+            Cattribute Rarity
+          </h1>
+          <Link href="/" className="text-xs underline">
+            Genome mapping
+          </Link>
+        </header>
+
+        {error && <div className="text-sm text-red-600 mb-4">{error}</div>}
+
+        <section className="bg-gradient-to-b from-muted/10 to-muted/5 rounded-xl p-8">
+          <div className="flex items-center justify-between mb-6">
+            <p className="text-sm text-muted-foreground">
+              {stats
+                ? `${stats.total.toLocaleString()} kitties counted` +
+                  (isLoading ? ", still counting…" : "")
+                : "Counting kitties…"}
+            </p>
+            <div className="flex gap-1">
+              {GENE_POSITIONS.map((p) => (
+                <button
+                  key={p}
+                  onClick={() => setPosition(p)}
+                  className={
+                    p === position
+                      ? "text-xs px-3 py-1 rounded bg-foreground text-background"
+                      : "text-xs px-3 py-1 rounded border"
+                  }
+                >
+                  {p}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {stats && stats.total > 0 && (
+            <div className="grid grid-cols-3 gap-4">
+              {DISPLAY_TRAIT_SLOTS.map((slot) => (
+                <Histogram
+                  key={slot}
+                  stats={stats}
+                  slot={slot}
+                  position={position}
+                />
+              ))}
+            </div>
+          )}
+        </section>
+      </div>
+    </div>
+  );
+}
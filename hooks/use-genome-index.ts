@@ -0,0 +1,72 @@
+"use client";
+import { useEffect, useSyncExternalStore } from "react";
+import {
+  buildGenomeIndex,
+  createGenomeIndex,
+  snapshotGenomeIndex,
+  type GenomeIndex,
+} from "@/lib/genome-index";
+
+export type GenomeIndexSnapshot = {
+  // A new snapshot whenever more kitties are indexed.
+  index: GenomeIndex | null;
+  size: number;
+  isLoading: boolean;
+  error: string | null;
+};
+
+// Built once per page load and shared by every component that queries it.
+let snapshot: GenomeIndexSnapshot = {
+  index: null,
+  size: 0,
+  isLoading: false,
+  error: null,
+};
+let started = false;
+const listeners = new Set<() => void>();
+
+function publish(next: GenomeIndexSnapshot) {
+  snapshot = next;
+  for (const listener of listeners) listener();
+}
+
+function subscribe(listener: () => void) {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+function start() {
+  if (started) return;
+  started = true;
+  const index = createGenomeIndex();
+  const publishIndex = (isLoading: boolean) =>
+    publish({
+      index: snapshotGenomeIndex(index),
+      size: index.size,
+      isLoading,
+      error: null,
+    });
+  publishIndex(true);
+  buildGenomeIndex(index, () => publishIndex(true))
+    .then(() => publishIndex(false))
+    .catch((e: unknown) => {
+      const message = e instanceof Error ? e.message : String(e);
+      publish({ ...snapshot, isLoading: false, error: message });
+    });
+}
+
+const serverSnapshot: GenomeIndexSnapshot = {
+  index: null,
+  size: 0,
+  isLoading: false,
+  error: null,
+};
+
+export function useGenomeIndex(): GenomeIndexSnapshot {
+  useEffect(start, []);
+  return useSyncExternalStore(
+    subscribe,
+    () => snapshot,
+    () => serverSnapshot
+  );
+}
@@ -0,0 +1,45 @@
+"use client";
+import { useSyncExternalStore } from "react";
+import { USES_FIXTURE_DATA } from "@/lib/data-source";
+
+// Whether kitty images are drawn locally instead of loaded from
+// img.cryptokitties.co, e.g. offline or behind a firewall. Shared by every
+// image on the page and kept across visits. On by default for fixture data.
+
+const STORAGE_KEY = "kitty-genome:offline-images";
+
+let offline: boolean | null = null;
+const listeners = new Set<() => void>();
+
+function readStored(): boolean {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored === null ? USES_FIXTURE_DATA : stored === "1";
+  } catch {
+    return USES_FIXTURE_DATA;
+  }
+}
+
+function subscribe(listener: () => void) {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+function getSnapshot(): boolean {
+  if (offline === null) offline = readStored();
+  return offline;
+}
+
+export function setOfflineImages(next: boolean) {
+  offline = next;
+  try {
+    localStorage.setItem(STORAGE_KEY, next ? "1" : "0");
+  } catch {
+    // Storage disabled; the setting lasts until the page is reloaded.
+  }
+  for (const listener of listeners) listener();
+}
+
+export function useOfflineImages(): boolean {
+  return useSyncExternalStore(subscribe, getSnapshot, () => USES_FIXTURE_DATA);
+}
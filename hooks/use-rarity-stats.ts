@@ -0,0 +1,74 @@
+"use client";
+import { useEffect, useSyncExternalStore } from "react";
+import {
+  collectRarityStats,
+  emptyRarityStats,
+  loadStoredRarityStats,
+  type RarityStats,
+} from "@/lib/rarity";
+
+export type RaritySnapshot = {
+  stats: RarityStats | null;
+  isLoading: boolean;
+  error: string | null;
+};
+
+// One aggregation per page load, shared by every component that shows rarity.
+// Only the Rarity page crawls the Birth index; other views show what the last
+// crawl saved.
+let snapshot: RaritySnapshot = { stats: null, isLoading: false, error: null };
+let started = false;
+const listeners = new Set<() => void>();
+
+function publish(next: RaritySnapshot) {
+  snapshot = next;
+  for (const listener of listeners) listener();
+}
+
+function subscribe(listener: () => void) {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+function start() {
+  if (started) return;
+  started = true;
+  const initial = loadStoredRarityStats() ?? emptyRarityStats();
+  publish({ stats: { ...initial }, isLoading: true, error: null });
+  collectRarityStats(initial, (stats) =>
+    publish({ stats: { ...stats }, isLoading: true, error: null })
+  )
+    .then((stats) =>
+      publish({ stats: { ...stats }, isLoading: false, error: null })
+    )
+    .catch((e: unknown) => {
+      const message = e instanceof Error ? e.message : String(e);
+      started = false;
+      publish({ ...snapshot, isLoading: false, error: message });
+    });
+}
+
+function loadStored() {
+  if (snapshot.stats) return;
+  const stored = loadStoredRarityStats();
+  if (stored) publish({ stats: stored, isLoading: false, error: null });
+}
+
+const serverSnapshot: RaritySnapshot = {
+  stats: null,
+  isLoading: false,
+  error: null,
+};
+
+// `collect` brings the stats up to date, one page of births at a time.
+export function useRarityStats({ collect = false } = {}): RaritySnapshot {
+  useEffect(() => {
+    if (collect) start();
+    else loadStored();
+  }, [collect]);
+  return useSyncExternalStore(
+    subscribe,
+    () => snapshot,
+    () => serverSnapshot
+  );
+}
@@ -0,0 +1,119 @@
+import { KAI_ALPHABET, type GenePosition, type TraitSlot } from "@/lib/genome";
+import {
+  indexedGene,
+  indexedGenome,
+  indexPosition,
+  type GenomeIndex,
+} from "@/lib/genome-index";
+import { findMutations } from "@/lib/inheritance";
+
+// Births of the genome index grouped by day or week, with per-bucket gene
+// counts for one trait slot and the share of kittens carrying a mutation.
+
+export type BucketSize = "day" | "week";
+
+export type TimelineBucket = {
+  // Unix seconds at the start of the bucket (UTC, weeks start on Monday).
+  start: number;
+  // Index positions of the kitties born in the bucket, in kittyId order.
+  positions: number[];
+  // Kitties showing each of the 32 genes as their dominant gene.
+  dominant: number[];
+  // Kitties carrying each gene in at least one hidden slot (R1-R3).
+  hidden: number[];
+  // Kittens with at least one gene mutated from their parents' genes.
+  mutations: number;
+  // Kittens whose parents are both indexed, i.e. that could show a mutation.
+  withParents: number;
+};
+
+const HIDDEN_POSITIONS: GenePosition[] = ["R1", "R2", "R3"];
+
+const DAY = 86400;
+const WEEK = 7 * DAY;
+// 1970-01-05, the first Monday after the epoch.
+const FIRST_MONDAY = 4 * DAY;
+
+export function bucketStart(time: number, size: BucketSize): number {
+  if (size === "day") return Math.floor(time / DAY) * DAY;
+  return Math.floor((time - FIRST_MONDAY) / WEEK) * WEEK + FIRST_MONDAY;
+}
+
+export function bucketSeconds(size: BucketSize): number {
+  return size === "day" ? DAY : WEEK;
+}
+
+const NO_PARENTS = 2;
+
+// Per kitty: 1 mutated, 0 not, NO_PARENTS when a parent isn't indexed.
+// Worked out once per kitty and extended as the index grows. Keyed by the ID
+// column, which every snapshot of one index shares.
+const mutationCache = new WeakMap<
+  string[],
+  { flags: Uint8Array; counted: number }
+>();
+
+function mutationFlags(index: GenomeIndex): Uint8Array {
+  let cached = mutationCache.get(index.kittyIds);
+  if (!cached || cached.flags.length < index.size) {
+    const flags = new Uint8Array(index.size * 2);
+    if (cached) flags.set(cached.flags);
+    cached = { flags, counted: cached?.counted ?? 0 };
+    mutationCache.set(index.kittyIds, cached);
+  }
+  const { flags } = cached;
+  for (let i = cached.counted; i < index.size; i++) {
+    const matron = indexPosition(index, index.matronIds[i]);
+    const sire = indexPosition(index, index.sireIds[i]);
+    if (matron < 0 || sire < 0) {
+      flags[i] = NO_PARENTS;
+      continue;
+    }
+    const mutated = findMutations(
+      indexedGenome(index, i),
+      indexedGenome(index, matron),
+      indexedGenome(index, sire)
+    );
+    flags[i] = mutated.length > 0 ? 1 : 0;
+  }
+  cached.counted = Math.max(cached.counted, index.size);
+  return flags;
+}
+
+export function buildTimeline(
+  index: GenomeIndex,
+  slot: TraitSlot,
+  size: BucketSize
+): TimelineBucket[] {
+  const flags = mutationFlags(index);
+  const buckets = new Map<number, TimelineBucket>();
+
+  for (let i = 0; i < index.size; i++) {
+    const start = bucketStart(index.timestamps[i], size);
+    let bucket = buckets.get(start);
+    if (!bucket) {
+      bucket = {
+        start,
+        positions: [],
+        dominant: new Array(KAI_ALPHABET.length).fill(0),
+        hidden: new Array(KAI_ALPHABET.length).fill(0),
+        mutations: 0,
+        withParents: 0,
+      };
+      buckets.set(start, bucket);
+    }
+    bucket.positions.push(i);
+
+    bucket.dominant[indexedGene(index, i, slot, "D")]++;
+    const hidden = new Set(
+      HIDDEN_POSITIONS.map((p) => indexedGene(index, i, slot, p))
+    );
+    for (const value of hidden) bucket.hidden[value]++;
+
+    if (flags[i] !== NO_PARENTS) {
+      bucket.withParents++;
+      bucket.mutations += flags[i];
+    }
+  }
+  return [...buckets.values()].sort((a, b) => a.start - b.start);
+}
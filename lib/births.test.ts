@@ -0,0 +1,27 @@
+import { describe, expect, it } from "vitest";
+import { getBirth, rememberBirths } from "@/lib/births";
+import type { Birth } from "@/lib/gql";
+import { fixtureBirth } from "@/test/fixtures";
+import { mockGraphql } from "@/test/graphql";
+
+describe("birth cache", () => {
+  it("forgets the least recently used births past its limit", async () => {
+    const oldest = fixtureBirth("900000001");
+    const recent = fixtureBirth("900000002");
+    rememberBirths([oldest, recent]);
+    const others: Birth[] = Array.from({ length: 9_999 }, (_, i) => ({
+      ...oldest,
+      id: `other-${i}`,
+      kittyId: String(800000000 + i),
+    }));
+    // Reading `recent` makes `oldest` the first to go.
+    await getBirth(recent.kittyId);
+    rememberBirths(others);
+
+    const requests = mockGraphql();
+    expect(await getBirth(recent.kittyId)).toEqual(recent);
+    expect(requests).toHaveLength(0);
+    expect(await getBirth(oldest.kittyId)).toEqual(oldest);
+    expect(requests.map((r) => r.variables.ids)).toEqual([[oldest.kittyId]]);
+  });
+});
@@ -0,0 +1,155 @@
+import { getDataSource } from "@/lib/data-source";
+import type { Birth } from "@/lib/gql";
+
+// Birth records never change once a kitty is born, so the records we see are
+// kept in memory and, in the browser, in IndexedDB. Lookups by ID issued in
+// the same tick are batched into a single request to the data source.
+
+const DB_NAME = "kitty-genome";
+const DB_VERSION = 1;
+const STORE = "births";
+
+// The most recently used births, oldest first. Bounded so a long-running
+// server, or a crawl of the whole index, doesn't hold every birth it saw.
+const MAX_REMEMBERED = 10_000;
+const memory = new Map<string, Birth>();
+const inFlight = new Map<string, Promise<Birth | undefined>>();
+
+type Waiter = {
+  resolve: (birth: Birth | undefined) => void;
+  reject: (error: unknown) => void;
+};
+let batch: Map<string, Waiter> | null = null;
+
+function recall(kittyId: string): Birth | undefined {
+  const birth = memory.get(kittyId);
+  if (birth) {
+    memory.delete(kittyId);
+    memory.set(kittyId, birth);
+  }
+  return birth;
+}
+
+function remember(birth: Birth) {
+  memory.delete(birth.kittyId);
+  memory.set(birth.kittyId, birth);
+  if (memory.size > MAX_REMEMBERED) {
+    memory.delete(memory.keys().next().value!);
+  }
+}
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+function openDb(): Promise<IDBDatabase | null> {
+  if (typeof indexedDB === "undefined") return Promise.resolve(null);
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve) => {
+      const req = indexedDB.open(DB_NAME, DB_VERSION);
+      req.onupgradeneeded = () => {
+        req.result.createObjectStore(STORE, { keyPath: "kittyId" });
+      };
+      req.onsuccess = () => resolve(req.result);
+      // A blocked or private-mode IndexedDB just means no persistent cache.
+      req.onerror = () => resolve(null);
+    });
+  }
+  return dbPromise;
+}
+
+async function readStored(ids: string[]): Promise<Birth[]> {
+  const db = await openDb();
+  if (!db) return [];
+  return new Promise((resolve) => {
+    const store = db.transaction(STORE, "readonly").objectStore(STORE);
+    const found: Birth[] = [];
+    let remaining = ids.length;
+    for (const id of ids) {
+      const req = store.get(id);
+      req.onsuccess = () => {
+        if (req.result) found.push(req.result as Birth);
+        if (--remaining === 0) resolve(found);
+      };
+      req.onerror = () => {
+        if (--remaining === 0) resolve(found);
+      };
+    }
+  });
+}
+
+async function writeStored(births: Birth[]) {
+  const db = await openDb();
+  if (!db || births.length === 0) return;
+  const store = db.transaction(STORE, "readwrite").objectStore(STORE);
+  for (const birth of births) store.put(birth);
+}
+
+// Adds births obtained elsewhere (e.g. the live feed) to the cache.
+export function rememberBirths(births: Birth[]): Birth[] {
+  for (const birth of births) remember(birth);
+  void writeStored(births);
+  return births;
+}
+
+async function flush() {
+  const waiters = batch;
+  batch = null;
+  if (!waiters) return;
+  const ids = [...waiters.keys()];
+  try {
+    const found = new Map<string, Birth>();
+    for (const birth of await readStored(ids)) {
+      found.set(birth.kittyId, birth);
+      remember(birth);
+    }
+    const missing = ids.filter((id) => !found.has(id));
+    if (missing.length > 0) {
+      for (const birth of rememberBirths(
+        await getDataSource().getBirthsByKittyIds(missing)
+      )) {
+        found.set(birth.kittyId, birth);
+      }
+    }
+    for (const [id, waiter] of waiters) waiter.resolve(found.get(id));
+  } catch (e: unknown) {
+    for (const waiter of waiters.values()) waiter.reject(e);
+  }
+}
+
+export function getBirth(kittyId: string): Promise<Birth | undefined> {
+  const cached = recall(kittyId);
+  if (cached) return Promise.resolve(cached);
+  const pending = inFlight.get(kittyId);
+  if (pending) return pending;
+
+  const promise = new Promise<Birth | undefined>((resolve, reject) => {
+    if (!batch) {
+      batch = new Map();
+      setTimeout(flush, 0);
+    }
+    batch.set(kittyId, { resolve, reject });
+  });
+  const done = () => inFlight.delete(kittyId);
+  promise.then(done, done);
+  inFlight.set(kittyId, promise);
+  return promise;
+}
+
+// Births for the given IDs that exist in the index, in no particular order.
+// Parent ID 0 (gen-0 kitties) is skipped.
+export async function getBirths(kittyIds: string[]): Promise<Birth[]> {
+  const unique = [...new Set(kittyIds)].filter((id) => id && id !== "0");
+  const births = await Promise.all(unique.map(getBirth));
+  return births.filter((b): b is Birth => Boolean(b));
+}
+
+export async function getLatest(limit: number): Promise<Birth[]> {
+  return rememberBirths(await getDataSource().getLatestBirths(limit));
+}
+
+export async function getChildren(kittyId: string): Promise<Birth[]> {
+  return rememberBirths(await getDataSource().getChildren(kittyId));
+}
+
+export async function getBirthsByOwner(owner: string): Promise<Birth[]> {
+  return rememberBirths(await getDataSource().getBirthsByOwner(owner));
+}
@@ -0,0 +1,69 @@
+import { describe, expect, it } from "vitest";
+import { recommendPairs } from "@/lib/breeding-recommender";
+import { getTrait } from "@/lib/genome";
+import { addBirthsToIndex, createGenomeIndex } from "@/lib/genome-index";
+import type { Birth } from "@/lib/gql";
+import { canBreed } from "@/lib/pedigree";
+import { FIXTURE_BIRTHS, fixtureGenome } from "@/test/fixtures";
+
+// A small family that all share one genome, so every pair scores the same
+// and only the mating rules decide which pairs are recommended.
+const GENES = FIXTURE_BIRTHS[0].genes;
+
+function birth(kittyId: string, matronId = "0", sireId = "0"): Birth {
+  return {
+    id: kittyId,
+    owner: "0xowner",
+    kittyId,
+    matronId,
+    sireId,
+    genes: GENES,
+    timestamp: kittyId,
+  };
+}
+
+const MATRON = birth("1");
+const SIRE = birth("2");
+const STRANGER = birth("3");
+const KITTEN = birth("4", "1", "2");
+const SIBLING = birth("5", "1", "2");
+const HALF_SIBLING = birth("6", "1", "3");
+
+describe("canBreed", () => {
+  it("allows unrelated kitties, gen 0 or not", () => {
+    expect(canBreed(MATRON, SIRE)).toBe(true);
+    expect(canBreed(KITTEN, STRANGER)).toBe(true);
+    expect(canBreed(birth("7", "4", "3"), birth("8", "5", "2"))).toBe(true);
+  });
+
+  it("rejects a kitty with itself, its parents or its kittens", () => {
+    expect(canBreed(MATRON, MATRON)).toBe(false);
+    expect(canBreed(KITTEN, MATRON)).toBe(false);
+    expect(canBreed(SIRE, KITTEN)).toBe(false);
+  });
+
+  it("rejects full and half siblings", () => {
+    expect(canBreed(KITTEN, SIBLING)).toBe(false);
+    expect(canBreed(HALF_SIBLING, KITTEN)).toBe(false);
+  });
+});
+
+describe("recommendPairs", () => {
+  it("only recommends pairs that can breed", () => {
+    const index = createGenomeIndex();
+    addBirthsToIndex(index, [
+      MATRON,
+      SIRE,
+      STRANGER,
+      KITTEN,
+      SIBLING,
+      HALF_SIBLING,
+    ]);
+    const mouth = getTrait(fixtureGenome(FIXTURE_BIRTHS[0].kittyId), "mouth")!;
+    const pairs = recommendPairs(index, [
+      { slot: "mouth", position: "D", gene: mouth.genes.D },
+    ]);
+    const ids = pairs.map((p) => [p.matronId, p.sireId].sort().join("+"));
+    expect(ids.sort()).toEqual(["1+2", "1+3", "2+3", "2+6", "3+4", "3+5"]);
+  });
+});
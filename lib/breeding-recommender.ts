@@ -0,0 +1,147 @@
+import {
+  arrangedGeneChance,
+  mutationSources,
+  traitMatchOdds,
+} from "@/lib/gene-science";
+import {
+  TRAIT_SLOTS,
+  type GenePosition,
+  type Genome,
+  type KaiGene,
+  type TraitSlot,
+} from "@/lib/genome";
+import {
+  indexedGenome,
+  type GeneCondition,
+  type GenomeIndex,
+} from "@/lib/genome-index";
+import { canBreed, type Lineage } from "@/lib/pedigree";
+
+// Ranks pairs from a pool of indexed kitties by the chance of breeding a
+// kitten with every target gene. Scoring every pair is quadratic, so each
+// target condition first nominates the kitties most likely to pass its gene
+// on, and only pairs among those nominees are scored exactly. Pairs KittyCore
+// won't breed, such as siblings, are skipped.
+
+const NOMINEES_PER_CONDITION = 60;
+
+export type ConditionOdds = {
+  condition: GeneCondition;
+  inherited: number;
+  mutation: number;
+};
+
+export type RecommendedPair = {
+  matronId: string;
+  sireId: string;
+  probability: number;
+  conditions: ConditionOdds[];
+};
+
+export type RecommendOptions = {
+  // Only consider kitties held by this address.
+  owner?: string;
+  limit?: number;
+};
+
+function groupBySlot(conditions: GeneCondition[]) {
+  const grouped = new Map<TraitSlot, Partial<Record<GenePosition, KaiGene>>>();
+  for (const { slot, position, gene } of conditions) {
+    grouped.set(slot, { ...grouped.get(slot), [position]: gene });
+  }
+  return grouped;
+}
+
+// How useful a single kitty is towards one condition: the chance it offers
+// the gene itself, plus a share for offering half of a mutation pair.
+function nomineeScore(genome: Genome, condition: GeneCondition): number {
+  const trait = genome[TRAIT_SLOTS.indexOf(condition.slot)];
+  let score = arrangedGeneChance(trait, condition.position, condition.gene);
+  if (condition.position === "D") {
+    for (const pair of mutationSources(condition.gene)) {
+      for (const gene of pair) {
+        score += arrangedGeneChance(trait, "D", gene) / 4;
+      }
+    }
+  }
+  return score;
+}
+
+function scorePair(
+  matron: Genome,
+  sire: Genome,
+  grouped: Map<TraitSlot, Partial<Record<GenePosition, KaiGene>>>
+) {
+  let probability = 1;
+  const conditions: ConditionOdds[] = [];
+  for (const [slot, required] of grouped) {
+    const idx = TRAIT_SLOTS.indexOf(slot);
+    const odds = traitMatchOdds(matron[idx], sire[idx], required);
+    probability *= odds.probability;
+    for (const [position, gene] of Object.entries(required)) {
+      const split = odds.positions[position as GenePosition]!;
+      conditions.push({
+        condition: { slot, position: position as GenePosition, gene },
+        ...split,
+      });
+    }
+  }
+  return { probability, conditions };
+}
+
+export function recommendPairs(
+  index: GenomeIndex,
+  target: GeneCondition[],
+  { owner, limit = 20 }: RecommendOptions = {}
+): RecommendedPair[] {
+  if (target.length === 0) return [];
+  const ownerKey = owner?.trim().toLowerCase();
+  const pool: number[] = [];
+  for (let i = 0; i < index.size; i++) {
+    if (!ownerKey || index.owners[i] === ownerKey) pool.push(i);
+  }
+
+  const scores = target.map(() => [] as Array<{ i: number; score: number }>);
+  for (const i of pool) {
+    const genome = indexedGenome(index, i);
+    target.forEach((condition, c) => {
+      const score = nomineeScore(genome, condition);
+      if (score > 0) scores[c].push({ i, score });
+    });
+  }
+  const nominees = new Set<number>();
+  for (const scored of scores) {
+    scored
+      .sort((a, b) => b.score - a.score)
+      .slice(0, NOMINEES_PER_CONDITION)
+      .forEach((n) => nominees.add(n.i));
+  }
+
+  const candidates = [...nominees];
+  const genomes = candidates.map((i) => indexedGenome(index, i));
+  const lineages: Lineage[] = candidates.map((i) => ({
+    kittyId: index.kittyIds[i],
+    matronId: index.matronIds[i],
+    sireId: index.sireIds[i],
+  }));
+  const grouped = groupBySlot(target);
+  const pairs: RecommendedPair[] = [];
+  for (let a = 0; a < candidates.length; a++) {
+    for (let b = a + 1; b < candidates.length; b++) {
+      if (!canBreed(lineages[a], lineages[b])) continue;
+      const { probability, conditions } = scorePair(
+        genomes[a],
+        genomes[b],
+        grouped
+      );
+      if (probability === 0) continue;
+      pairs.push({
+        matronId: index.kittyIds[candidates[a]],
+        sireId: index.kittyIds[candidates[b]],
+        probability,
+        conditions,
+      });
+    }
+  }
+  return pairs.sort((a, b) => b.probability - a.probability).slice(0, limit);
+}
@@ -0,0 +1,151 @@
+import {
+  getTrait,
+  KAI_ALPHABET,
+  type Genome,
+  type KaiGene,
+  type TraitSlot,
+} from "@/lib/genome";
+
+export const TRAIT_LABELS: Record<TraitSlot, string> = {
+  body: "Body",
+  pattern: "Pattern",
+  eyeColor: "Eye Colour",
+  eyeShape: "Eye Type",
+  baseColor: "Body Colour",
+  highlightColor: "Pattern Colour",
+  accentColor: "Tummy Colour",
+  wild: "Wild",
+  mouth: "Mouth",
+  environment: "Environment",
+  secret: "Secret",
+  prestige: "Purrstige",
+};
+
+// Slots as laid out in the genome grids: most significant trait on the left,
+// matching the order of the Kai string.
+export const DISPLAY_TRAIT_SLOTS: TraitSlot[] = [
+  "prestige",
+  "secret",
+  "environment",
+  "mouth",
+  "wild",
+  "accentColor",
+  "highlightColor",
+  "baseColor",
+  "eyeShape",
+  "eyeColor",
+  "pattern",
+  "body",
+];
+
+type CattributeTable = Partial<Record<KaiGene, string>>;
+
+// Builds a table from names listed in Kai order starting at gene "1". A "-"
+// marks a gene with no known cattribute.
+function kaiTable(names: string): CattributeTable {
+  const table: CattributeTable = {};
+  names
+    .trim()
+    .split(/\s+/)
+    .forEach((name, idx) => {
+      if (name !== "-") table[KAI_ALPHABET[idx]] = name;
+    });
+  return table;
+}
+
+export const CATTRIBUTES: Record<TraitSlot, CattributeTable> = {
+  body: kaiTable(`
+    savannah selkirk chantilly birman koladiviya bobtail manul pixiebob
+    siberian cymric chartreux himalayan munchkin sphynx ragamuffin ragdoll
+    norwegianforest mekong highlander balinese lynx mainecoon laperm persian
+    fox kurilian toyger manx lykoi burmilla liger -
+  `),
+  pattern: kaiTable(`
+    vigilante tiger rascal ganado leopard camo rorschach spangled
+    calicool luckystripe amur jaguar spock mittens totesbasic totesbasic
+    splat thunderstruck dippedcone highsociety tigerpunk henna arcreactor
+    totesbasic scorpius razzledazzle hotrod allyouneedislove avatar gyre
+    moonrise -
+  `),
+  eyeColor: kaiTable(`
+    thundergrey gold topaz mintgreen isotope sizzurp chestnut strawberry
+    sapphire forgetmenot dahlia coralsunrise olive doridnudibranch parakeet
+    cyan pumpkin limegreen bridesmaid bubblegum twilightsparkle palejade
+    pinefresh eclipse babypuke downbythebay autumnmoon oasis gemini dioscuri
+    kaleidoscope -
+  `),
+  eyeShape: kaiTable(`
+    swarley wonky serpent googly otaku simple crazy thicccbrowz
+    caffeine wowza baddate asif chronic slyboots wiley stunned
+    chameleon alien fabulous raisedbrow tendertears hacker sass
+    sweetmeloncakes oceanid wingtips firedup buzzed bornwithit candyshoes
+    drama -
+  `),
+  baseColor: kaiTable(`
+    shadowgrey salmon meowgarine orangesoda cottoncandy mauveover aquamarine
+    nachocheez harbourfog cinderella greymatter tundra brownies dragonfruit
+    hintomint bananacream cloudwhite cornflower oldlace koala lavender
+    glacier redvelvet verdigris icicle onyx hyacinth martian hotcocoa
+    shamrock firstblush -
+  `),
+  highlightColor: kaiTable(`
+    cyborg springcrocus egyptiankohl poisonberry lilac apricot royalpurple
+    padparadscha swampgreen violet scarlet barkbrown coffee lemonade
+    chocolate butterscotch ooze safetyvest turtleback rosequartz wolfgrey
+    cerulian skyblue garnet peppermint universe royalblue mertail
+    inflatablepool pearl prairierose -
+  `),
+  accentColor: kaiTable(`
+    belleblue sandalwood peach icy granitegrey cashewmilk kittencream
+    emeraldgreen kalahari shale purplehaze hanauma azaleablush missmuffett
+    morningglory frosting daffodil flamingo buttercup bloodred atlantis
+    summerbonnet periwinkle patrickstarfish seafoam cobalt mallowflower
+    mintmacaron sully fallspice dreamboat -
+  `),
+  wild: kaiTable(`
+    - - - - - - - - - - - - - - - -
+    littlefoot elk ducky trioculus daemonwings featherbrain flapflap
+    daemonhorns dragontail aflutter foghornpawhorn unicorn dragonwings
+    alicorn wyrm -
+  `),
+  mouth: kaiTable(`
+    whixtensions wolfgang saycheese grim fangtastic moue happygokitty
+    soserious cheeky starstruck samwise ruhroh dali grimace majestic tongue
+    yokel topoftheworld neckbeard satiated walrus struck delite belch
+    rollercoaster beard pouty gerbil - - - -
+  `),
+  environment: kaiTable(`
+    - - - - - - - - - - - - - - - -
+    salty dune juju tinybox myparade finalfrontier metime drift
+    secretgarden frozen roadtogold jacked floorislava prism junglebook -
+  `),
+  secret: {},
+  prestige: {},
+};
+
+export function cattributeName(
+  slot: TraitSlot,
+  gene?: KaiGene
+): string | undefined {
+  if (!gene) return undefined;
+  return CATTRIBUTES[slot][gene];
+}
+
+// Short human-readable line of the visible cattributes, e.g. for link
+// previews: "munchkin · tiger · thundergrey · ...".
+export function summarizeDominantCattributes(genome: Genome): string {
+  const slots: TraitSlot[] = [
+    "body",
+    "pattern",
+    "eyeColor",
+    "eyeShape",
+    "baseColor",
+    "highlightColor",
+    "accentColor",
+    "mouth",
+  ];
+  return slots
+    .map((slot) => cattributeName(slot, getTrait(genome, slot)?.genes.D))
+    .filter((name): name is string => Boolean(name))
+    .join(" · ");
+}
@@ -0,0 +1,33 @@
+// @vitest-environment node
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+// The source is picked from the environment when the module loads, so each
+// test imports a fresh copy after setting it.
+async function fixtureDataSource(url: string) {
+  vi.stubEnv("NEXT_PUBLIC_DATA_SOURCE", "fixture");
+  vi.stubEnv("NEXT_PUBLIC_FIXTURE_URL", url);
+  vi.resetModules();
+  return import("@/lib/data-source");
+}
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+describe("fixture data source on the server", () => {
+  it("reads a site-relative fixture from public/", async () => {
+    const { getDataSource } = await fixtureDataSource(
+      "/fixtures/births.ndjson"
+    );
+    const [birth] = await getDataSource().getBirthsByKittyIds(["900000001"]);
+    expect(birth.kittyId).toBe("900000001");
+    expect(await getDataSource().sampleBirths(3)).toHaveLength(3);
+  });
+
+  it("doesn't keep a source whose fixture failed to load", async () => {
+    const { getDataSource } = await fixtureDataSource("/fixtures/missing.json");
+    const failed = getDataSource();
+    await expect(failed.getLatestBirths(1)).rejects.toThrow(/ENOENT/);
+    expect(getDataSource()).not.toBe(failed);
+  });
+});
@@ -0,0 +1,67 @@
+import type { Birth } from "@/lib/gql";
+import { createFixtureSource, loadFixture } from "@/lib/fixture-source";
+import { hasuraSource } from "@/lib/hasura-source";
+
+// Conditions a source applies itself when paging or sampling, so callers only
+// see matching births.
+export type BirthFilter = {
+  // Births to `owner`, matched case-insensitively.
+  owner?: string;
+  // Only bred kitties (true) or only gen 0 kitties (false).
+  bred?: boolean;
+};
+
+// Everything the app asks of the birth index. The Hasura source answers it
+// over GraphQL; the fixture source answers it from a local dump so the app
+// runs without an indexer.
+export type BirthDataSource = {
+  name: string;
+  // Whether the live feed can subscribe rather than poll.
+  supportsSubscriptions: boolean;
+  getBirthsByKittyIds(kittyIds: string[]): Promise<Birth[]>;
+  getLatestBirths(limit: number): Promise<Birth[]>;
+  getChildren(kittyId: string): Promise<Birth[]>;
+  // Births to `owner`, matched case-insensitively, in kittyId order.
+  getBirthsByOwner(owner: string): Promise<Birth[]>;
+  getMaxKittyId(): Promise<string | undefined>;
+  // Births with kittyId greater than `afterKittyId`, in kittyId order.
+  getBirthsPage(
+    afterKittyId: string,
+    limit: number,
+    filter?: BirthFilter
+  ): Promise<Birth[]>;
+  // `count` births matching `filter` drawn at random with replacement. Empty
+  // when nothing matches.
+  sampleBirths(count: number, filter?: BirthFilter): Promise<Birth[]>;
+};
+
+const DATA_SOURCE = process.env.NEXT_PUBLIC_DATA_SOURCE || "hasura";
+const FIXTURE_URL =
+  process.env.NEXT_PUBLIC_FIXTURE_URL || "/fixtures/births.ndjson";
+
+// Fixture kitties are made up, so there is no official art to show for them.
+export const USES_FIXTURE_DATA = DATA_SOURCE === "fixture";
+
+let active: BirthDataSource | null = null;
+
+function createFixture(): BirthDataSource {
+  const records = loadFixture(FIXTURE_URL);
+  const source = createFixtureSource(records, FIXTURE_URL);
+  // Don't keep a source whose dump failed to load; the next lookup retries.
+  records.catch(() => {
+    if (active === source) active = null;
+  });
+  return source;
+}
+
+export function getDataSource(): BirthDataSource {
+  if (!active) {
+    active = DATA_SOURCE === "fixture" ? createFixture() : hasuraSource;
+  }
+  return active;
+}
+
+// Swaps the source at runtime, e.g. to point tests at in-memory fixtures.
+export function setDataSource(source: BirthDataSource) {
+  active = source;
+}
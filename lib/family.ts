@@ -0,0 +1,43 @@
+import { getChildren } from "@/lib/births";
+import type { Birth } from "@/lib/gql";
+import { isGenZero } from "@/lib/pedigree";
+
+export type Family = {
+  children: Birth[];
+  // Same two parents, in either role.
+  fullSiblings: Birth[];
+  // Exactly one parent in common.
+  halfSiblings: Birth[];
+};
+
+function sameParents(a: Birth, b: Birth): boolean {
+  return (
+    (a.matronId === b.matronId && a.sireId === b.sireId) ||
+    (a.matronId === b.sireId && a.sireId === b.matronId)
+  );
+}
+
+// Children and siblings of `kitty`, in kittyId order. Siblings are every
+// child of either parent; gen-0 kitties have none.
+export async function loadFamily(kitty: Birth): Promise<Family> {
+  const parentIds = isGenZero(kitty)
+    ? []
+    : [...new Set([kitty.matronId, kitty.sireId])];
+  const [children, ...parentChildren] = await Promise.all([
+    getChildren(kitty.kittyId),
+    ...parentIds.map(getChildren),
+  ]);
+
+  const siblings = new Map<string, Birth>();
+  for (const birth of parentChildren.flat()) {
+    if (birth.kittyId !== kitty.kittyId) siblings.set(birth.kittyId, birth);
+  }
+  const sorted = [...siblings.values()].sort(
+    (a, b) => Number(a.kittyId) - Number(b.kittyId)
+  );
+  return {
+    children,
+    fullSiblings: sorted.filter((b) => sameParents(b, kitty)),
+    halfSiblings: sorted.filter((b) => !sameParents(b, kitty)),
+  };
+}
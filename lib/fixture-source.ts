@@ -0,0 +1,126 @@
+import type { BirthDataSource, BirthFilter } from "@/lib/data-source";
+import { birthTime, type Birth } from "@/lib/gql";
+
+// Reads a dump of `KittyCore_Birth` rows, either a JSON array (optionally
+// wrapped as a GraphQL response) or NDJSON with one record per line.
+
+function toBirth(raw: Record<string, unknown>): Birth {
+  const field = (key: keyof Birth) => {
+    const value = raw[key];
+    if (value === undefined || value === null) {
+      throw new Error(`Fixture record is missing "${key}"`);
+    }
+    return String(value);
+  };
+  return {
+    id: field("id"),
+    owner: field("owner"),
+    kittyId: field("kittyId"),
+    matronId: field("matronId"),
+    sireId: field("sireId"),
+    genes: field("genes"),
+    timestamp: field("timestamp"),
+  };
+}
+
+export function parseFixture(text: string): Birth[] {
+  const trimmed = text.trim();
+  if (!trimmed) return [];
+  let rows: Array<Record<string, unknown>>;
+  if (trimmed.startsWith("[") || trimmed.startsWith("{\"data\"")) {
+    const json = JSON.parse(trimmed);
+    rows = Array.isArray(json) ? json : json.data.KittyCore_Birth;
+  } else {
+    rows = trimmed
+      .split("\n")
+      .filter((line) => line.trim())
+      .map((line) => JSON.parse(line));
+  }
+  return rows.map(toBirth);
+}
+
+// A server has no origin to resolve a site-relative URL against, so there the
+// dump is read from `public/` on disk instead.
+export async function loadFixture(url: string): Promise<Birth[]> {
+  if (typeof window === "undefined" && url.startsWith("/")) {
+    const { readFile } = await import(/* webpackIgnore: true */ "fs/promises");
+    return parseFixture(
+      await readFile(`${process.cwd()}/public${url}`, "utf8")
+    );
+  }
+  const res = await fetch(url);
+  if (!res.ok) throw new Error(`Fixture error ${res.status} loading ${url}`);
+  return parseFixture(await res.text());
+}
+
+function matchesFilter(birth: Birth, { owner, bred }: BirthFilter = {}) {
+  const ownerMatches =
+    !owner || birth.owner.toLowerCase() === owner.toLowerCase();
+  const bredMatches = bred === undefined || bred === (birth.matronId !== "0");
+  return ownerMatches && bredMatches;
+}
+
+export function createFixtureSource(
+  records: Birth[] | Promise<Birth[]>,
+  name = "fixture"
+): BirthDataSource {
+  const byKittyId = Promise.resolve(records).then(
+    (births) => new Map(births.map((b) => [b.kittyId, b]))
+  );
+  // A failed load is reported by each lookup, not as an unhandled rejection.
+  byKittyId.catch(() => {});
+  const all = async () => [...(await byKittyId).values()];
+
+  return {
+    name,
+    supportsSubscriptions: false,
+
+    async getBirthsByKittyIds(kittyIds) {
+      const index = await byKittyId;
+      return kittyIds
+        .map((id) => index.get(String(id)))
+        .filter((b): b is Birth => Boolean(b));
+    },
+
+    async getLatestBirths(limit) {
+      return (await all())
+        .sort((a, b) => birthTime(b) - birthTime(a))
+        .slice(0, limit);
+    },
+
+    async getChildren(kittyId) {
+      return (await all())
+        .filter((b) => b.matronId === kittyId || b.sireId === kittyId)
+        .sort((a, b) => Number(a.kittyId) - Number(b.kittyId));
+    },
+
+    async getBirthsByOwner(owner) {
+      const key = owner.toLowerCase();
+      return (await all())
+        .filter((b) => b.owner.toLowerCase() === key)
+        .sort((a, b) => Number(a.kittyId) - Number(b.kittyId));
+    },
+
+    async getMaxKittyId() {
+      const ids = (await all()).map((b) => Number(b.kittyId));
+      return ids.length > 0 ? String(Math.max(...ids)) : undefined;
+    },
+
+    async getBirthsPage(afterKittyId, limit, filter) {
+      const after = Number(afterKittyId);
+      return (await all())
+        .filter((b) => Number(b.kittyId) > after && matchesFilter(b, filter))
+        .sort((a, b) => Number(a.kittyId) - Number(b.kittyId))
+        .slice(0, limit);
+    },
+
+    async sampleBirths(count, filter) {
+      const pool = (await all()).filter((b) => matchesFilter(b, filter));
+      if (pool.length === 0) return [];
+      return Array.from(
+        { length: count },
+        () => pool[Math.floor(Math.random() * pool.length)]
+      );
+    },
+  };
+}
@@ -0,0 +1,273 @@
+import {
+  GENE_POSITIONS,
+  kaiToValue,
+  TRAIT_SLOTS,
+  valueToKai,
+  type GenePosition,
+  type Genome,
+  type KaiGene,
+  type TraitGenes,
+  type TraitSlot,
+} from "@/lib/genome";
+
+// Reimplementation of KittyCore's GeneScience.mixGenes:
+//  1. For each parent and trait, walk from R3 down to R1 and swap each gene
+//     with the one below it with a 1 in 4 chance. This is how hidden genes
+//     get promoted towards the dominant slot.
+//  2. For each dominant gene, if the two parents' genes form a mutation pair
+//     (an even gene and the next one up) they mutate into a new gene: 1 in 4
+//     for base pairs, 1 in 8 once the lower gene is already above 23.
+//  3. Every other gene is taken from either parent with equal probability.
+
+const SWAP_CHANCE = 1 / 4;
+const BASE_MUTATION_CHANCE = 2 / 8;
+const HIGH_MUTATION_CHANCE = 1 / 8;
+const HIGH_MUTATION_THRESHOLD = 23;
+
+export type MutationTier = 0 | 1 | 2 | 3 | 4;
+
+export const MUTATION_TIER_LABELS: Record<MutationTier, string> = {
+  0: "Base",
+  1: "Mewtation I",
+  2: "Mewtation II",
+  3: "Mewtation III",
+  4: "Mewtation IV",
+};
+
+// Base genes are 0-15, each mutation tier halves the number of genes above it.
+export function mutationTier(gene: KaiGene): MutationTier {
+  const value = kaiToValue(gene);
+  if (value < 16) return 0;
+  if (value < 24) return 1;
+  if (value < 28) return 2;
+  if (value < 30) return 3;
+  return 4;
+}
+
+export type MutationOutcome = {
+  gene: KaiGene;
+  probability: number;
+};
+
+// The gene two dominant parent genes can mutate into, regardless of order.
+export function mutationOutcome(
+  a: KaiGene,
+  b: KaiGene
+): MutationOutcome | null {
+  const low = Math.min(kaiToValue(a), kaiToValue(b));
+  const high = Math.max(kaiToValue(a), kaiToValue(b));
+  if (high - low !== 1 || low % 2 !== 0) return null;
+  return {
+    gene: valueToKai(low / 2 + 16),
+    probability:
+      low < HIGH_MUTATION_THRESHOLD
+        ? BASE_MUTATION_CHANCE
+        : HIGH_MUTATION_CHANCE,
+  };
+}
+
+// The parent gene pairs that can mutate into `gene`, lower gene first.
+export function mutationSources(gene: KaiGene): Array<[KaiGene, KaiGene]> {
+  const value = kaiToValue(gene);
+  if (value < 16) return [];
+  const low = (value - 16) * 2;
+  return [[valueToKai(low), valueToKai(low + 1)]];
+}
+
+type Arrangement = { genes: KaiGene[]; probability: number };
+
+// All orderings a parent's trait can be passed on in after the swap step,
+// indexed D, R1, R2, R3.
+function swapArrangements(trait: TraitGenes): Arrangement[] {
+  let arrangements: Arrangement[] = [
+    {
+      genes: GENE_POSITIONS.map((position) => trait.genes[position]),
+      probability: 1,
+    },
+  ];
+  for (let j = GENE_POSITIONS.length - 1; j >= 1; j--) {
+    arrangements = arrangements.flatMap(({ genes, probability }) => {
+      const swapped = [...genes];
+      [swapped[j], swapped[j - 1]] = [swapped[j - 1], swapped[j]];
+      return [
+        { genes, probability: probability * (1 - SWAP_CHANCE) },
+        { genes: swapped, probability: probability * SWAP_CHANCE },
+      ];
+    });
+  }
+  return arrangements;
+}
+
+export type GeneOdds = {
+  gene: KaiGene;
+  probability: number;
+  mutation: boolean;
+};
+
+export type TraitPrediction = {
+  slot: TraitSlot;
+  genes: Record<GenePosition, GeneOdds[]>;
+};
+
+function addOdds(
+  odds: Map<string, GeneOdds>,
+  gene: KaiGene,
+  probability: number,
+  mutation: boolean
+) {
+  const key = `${gene}:${mutation}`;
+  const existing = odds.get(key);
+  if (existing) existing.probability += probability;
+  else odds.set(key, { gene, probability, mutation });
+}
+
+function sortedOdds(odds: Map<string, GeneOdds>): GeneOdds[] {
+  return [...odds.values()]
+    .filter((o) => o.probability > 0)
+    .sort((a, b) => b.probability - a.probability);
+}
+
+export function predictTrait(
+  matronTrait: TraitGenes,
+  sireTrait: TraitGenes
+): TraitPrediction {
+  const matronArrangements = swapArrangements(matronTrait);
+  const sireArrangements = swapArrangements(sireTrait);
+  const genes = {} as Record<GenePosition, GeneOdds[]>;
+
+  GENE_POSITIONS.forEach((position, posIdx) => {
+    const odds = new Map<string, GeneOdds>();
+    for (const m of matronArrangements) {
+      for (const s of sireArrangements) {
+        const p = m.probability * s.probability;
+        const mGene = m.genes[posIdx];
+        const sGene = s.genes[posIdx];
+        const mutation =
+          position === "D" ? mutationOutcome(mGene, sGene) : null;
+        const inherit = p * (1 - (mutation?.probability ?? 0));
+        if (mutation) {
+          addOdds(odds, mutation.gene, p * mutation.probability, true);
+        }
+        addOdds(odds, mGene, inherit / 2, false);
+        addOdds(odds, sGene, inherit / 2, false);
+      }
+    }
+    genes[position] = sortedOdds(odds);
+  });
+
+  return { slot: matronTrait.slot, genes };
+}
+
+export function predictKitten(matron: Genome, sire: Genome): TraitPrediction[] {
+  return TRAIT_SLOTS.map((_, idx) => predictTrait(matron[idx], sire[idx]));
+}
+
+// The single most likely kitten: the top gene at every position. Useful as a
+// preview, though the kitten as a whole may be far less likely than that.
+export function mostLikelyGenome(prediction: TraitPrediction[]): Genome {
+  return prediction.map((trait) => {
+    const genes = {} as Record<GenePosition, KaiGene>;
+    for (const position of GENE_POSITIONS) {
+      genes[position] = trait.genes[position][0].gene;
+    }
+    return { slot: trait.slot, genes };
+  });
+}
+
+// Chance that, after its swaps, a parent offers `gene` at `position`.
+export function arrangedGeneChance(
+  trait: TraitGenes,
+  position: GenePosition,
+  gene: KaiGene
+): number {
+  const posIdx = GENE_POSITIONS.indexOf(position);
+  return swapArrangements(trait)
+    .filter((a) => a.genes[posIdx] === gene)
+    .reduce((sum, a) => sum + a.probability, 0);
+}
+
+export type TraitMatchOdds = {
+  // Chance the kitten carries every required gene of this trait.
+  probability: number;
+  // Per required position, how much of the chance comes from inheriting the
+  // gene directly versus a dominant-slot mutation.
+  positions: Partial<
+    Record<GenePosition, { inherited: number; mutation: number }>
+  >;
+};
+
+// Joint odds of a kitten carrying all `required` genes of one trait. Positions
+// are only independent once both parents' swaps are fixed, so this sums over
+// the swap arrangements rather than multiplying per-position odds.
+export function traitMatchOdds(
+  matronTrait: TraitGenes,
+  sireTrait: TraitGenes,
+  required: Partial<Record<GenePosition, KaiGene>>
+): TraitMatchOdds {
+  const matronArrangements = swapArrangements(matronTrait);
+  const sireArrangements = swapArrangements(sireTrait);
+  const targets = GENE_POSITIONS.flatMap((position, posIdx) => {
+    const gene = required[position];
+    return gene ? [{ position, posIdx, gene }] : [];
+  });
+  const positions: TraitMatchOdds["positions"] = {};
+  for (const { position } of targets) {
+    positions[position] = { inherited: 0, mutation: 0 };
+  }
+  let probability = 0;
+
+  for (const m of matronArrangements) {
+    for (const s of sireArrangements) {
+      let joint = m.probability * s.probability;
+      for (const { position, posIdx, gene } of targets) {
+        const mGene = m.genes[posIdx];
+        const sGene = s.genes[posIdx];
+        const mutation =
+          position === "D" ? mutationOutcome(mGene, sGene) : null;
+        const viaMutation = mutation?.gene === gene ? mutation.probability : 0;
+        const inherit =
+          (1 - (mutation?.probability ?? 0)) *
+          ((mGene === gene ? 0.5 : 0) + (sGene === gene ? 0.5 : 0));
+        const odds = positions[position]!;
+        odds.mutation += m.probability * s.probability * viaMutation;
+        odds.inherited += m.probability * s.probability * inherit;
+        joint *= viaMutation + inherit;
+      }
+      probability += joint;
+    }
+  }
+
+  return { probability, positions };
+}
+
+// Draws one concrete kitten genome using the same rules, for sampling.
+export function mixGenomes(
+  matron: Genome,
+  sire: Genome,
+  random: () => number = Math.random
+): Genome {
+  const pick = (trait: TraitGenes) => {
+    const genes = GENE_POSITIONS.map((position) => trait.genes[position]);
+    for (let j = genes.length - 1; j >= 1; j--) {
+      if (random() < SWAP_CHANCE) {
+        [genes[j], genes[j - 1]] = [genes[j - 1], genes[j]];
+      }
+    }
+    return genes;
+  };
+  return TRAIT_SLOTS.map((slot, idx) => {
+    const m = pick(matron[idx]);
+    const s = pick(sire[idx]);
+    const genes = {} as Record<GenePosition, KaiGene>;
+    GENE_POSITIONS.forEach((position, posIdx) => {
+      const mutation =
+        position === "D" ? mutationOutcome(m[posIdx], s[posIdx]) : null;
+      if (mutation && random() < mutation.probability) {
+        genes[position] = mutation.gene;
+      } else {
+        genes[position] = random() < 0.5 ? m[posIdx] : s[posIdx];
+      }
+    });
+    return { slot, genes };
+  });
+}
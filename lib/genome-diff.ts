@@ -0,0 +1,69 @@
+import {
+  GENE_POSITIONS,
+  type GenePosition,
+  type Genome,
+  type KaiGene,
+  type TraitSlot,
+} from "@/lib/genome";
+
+export type GeneDifference = {
+  slot: TraitSlot;
+  position: GenePosition;
+  a: KaiGene;
+  b: KaiGene;
+};
+
+// Every gene where `a` and `b` differ, in trait order from the lowest bits.
+export function diffGenomes(a: Genome, b: Genome): GeneDifference[] {
+  return a.flatMap((trait, idx) =>
+    GENE_POSITIONS.filter(
+      (position) => trait.genes[position] !== b[idx].genes[position]
+    ).map((position) => ({
+      slot: trait.slot,
+      position,
+      a: trait.genes[position],
+      b: b[idx].genes[position],
+    }))
+  );
+}
+
+// Share of the 48 genes that match position for position, between 0 and 1.
+export function genomeSimilarity(a: Genome, b: Genome): number {
+  const total = a.length * GENE_POSITIONS.length;
+  return (total - diffGenomes(a, b).length) / total;
+}
+
+// Genes both kitties carry in one of a trait's hidden positions (R1-R3),
+// whichever position each carries them in.
+export function sharedHiddenGenes(
+  a: Genome,
+  b: Genome
+): Array<{ slot: TraitSlot; gene: KaiGene }> {
+  const hidden = (genes: Record<GenePosition, KaiGene>) =>
+    new Set([genes.R1, genes.R2, genes.R3]);
+  return a.flatMap((trait, idx) => {
+    const other = hidden(b[idx].genes);
+    return [...hidden(trait.genes)]
+      .filter((gene) => other.has(gene))
+      .map((gene) => ({ slot: trait.slot, gene }));
+  });
+}
+
+// How many of `genomes` carry the same gene at each slot and position, for
+// colouring aligned rows: counts[k][slot][position] for genome k.
+export function geneAgreement(
+  genomes: Genome[]
+): Array<Record<TraitSlot, Record<GenePosition, number>>> {
+  return genomes.map((genome) => {
+    const counts = {} as Record<TraitSlot, Record<GenePosition, number>>;
+    genome.forEach((trait, idx) => {
+      counts[trait.slot] = {} as Record<GenePosition, number>;
+      for (const position of GENE_POSITIONS) {
+        counts[trait.slot][position] = genomes.filter(
+          (other) => other[idx].genes[position] === trait.genes[position]
+        ).length;
+      }
+    });
+    return counts;
+  });
+}
@@ -0,0 +1,39 @@
+import { describe, expect, it } from "vitest";
+import { genomeCardSvg, genomeCsv, genomeJson } from "@/lib/genome-export";
+import { fixtureBirth, fixtureFamily } from "@/test/fixtures";
+
+// The exports are checked in byte for byte, so a change to any of them shows
+// up as a diff of the files under __snapshots__.
+describe("genome exports", () => {
+  const family = fixtureFamily("900000019");
+  const births = [family.matron, family.sire, family.kitten];
+
+  it("writes the same JSON document every time", async () => {
+    expect(genomeJson(family)).toBe(genomeJson({ ...family }));
+    await expect(genomeJson(family)).toMatchFileSnapshot(
+      "__snapshots__/genome-export.json"
+    );
+  });
+
+  it("writes the same CSV every time", async () => {
+    await expect(genomeCsv(births)).toMatchFileSnapshot(
+      "__snapshots__/genome-export.csv"
+    );
+  });
+
+  it("writes the same SVG card every time", async () => {
+    await expect(genomeCardSvg(family)).toMatchFileSnapshot(
+      "__snapshots__/genome-export.svg"
+    );
+  });
+
+  it("quotes CSV fields with commas, quotes or line breaks", () => {
+    const birth = fixtureBirth("900000019");
+    const row = (owner: string) =>
+      genomeCsv([{ ...birth, owner }]).split("\n")[1];
+    expect(row("a,b")).toContain(`,"a,b",`);
+    expect(row('a"b')).toContain(`,"a""b",`);
+    expect(row("a\rb")).toContain(`,"a\rb",`);
+    expect(genomeCsv([{ ...birth, owner: "a\nb" }])).toContain(`,"a\nb",`);
+  });
+});
@@ -0,0 +1,330 @@
+import {
+  cattributeName,
+  DISPLAY_TRAIT_SLOTS,
+  TRAIT_LABELS,
+} from "@/lib/cattributes";
+import {
+  GENE_POSITIONS,
+  genomeToKai,
+  getTrait,
+  kaiToValue,
+  TRAIT_SLOTS,
+  tryDecodeGenome,
+  type GenePosition,
+  type Genome,
+  type TraitSlot,
+} from "@/lib/genome";
+import type { Birth } from "@/lib/gql";
+import {
+  deriveTraitRelations,
+  describeRelation,
+  parentGeneCategory,
+  relationCategory,
+  type GeneRelation,
+  type RelationCategory,
+} from "@/lib/inheritance";
+
+// Exports of the genome mapping grid. Everything here is a pure function of
+// the birth records, with no timestamps or environment-dependent output, so
+// exporting the same kitties always yields byte-identical files.
+
+export type ExportRole = "matron" | "sire" | "kitten";
+
+export type ExportFamily = Partial<Record<ExportRole, Birth | null>>;
+
+const ROLES: ExportRole[] = ["matron", "sire", "kitten"];
+
+const ROLE_LABELS: Record<ExportRole, string> = {
+  matron: "Matron",
+  sire: "Sire",
+  kitten: "Kitten",
+};
+
+type Row = { role: ExportRole; birth: Birth; genome: Genome };
+
+function familyRows(family: ExportFamily): Row[] {
+  return ROLES.flatMap((role) => {
+    const birth = family[role];
+    const genome = tryDecodeGenome(birth?.genes);
+    return birth && genome ? [{ role, birth, genome }] : [];
+  });
+}
+
+function familyRelations(rows: Row[]) {
+  const genomeOf = (role: ExportRole) =>
+    rows.find((r) => r.role === role)?.genome;
+  const [m, s, k] = ROLES.map(genomeOf);
+  const relations = {} as Record<TraitSlot, Record<GenePosition, GeneRelation>>;
+  for (const slot of TRAIT_SLOTS) {
+    relations[slot] = deriveTraitRelations(
+      m && getTrait(m, slot),
+      s && getTrait(s, slot),
+      k && getTrait(k, slot)
+    );
+  }
+  return relations;
+}
+
+function cellCategory(
+  role: ExportRole,
+  relations: Record<GenePosition, GeneRelation>,
+  position: GenePosition
+): RelationCategory {
+  return role === "kitten"
+    ? relationCategory(relations[position])
+    : (parentGeneCategory(role, position, relations) ?? "unknown");
+}
+
+export function genomeJson(family: ExportFamily): string {
+  const rows = familyRows(family);
+  const relations = familyRelations(rows);
+  const kitties = rows.map(({ role, birth, genome }) => ({
+    role,
+    kittyId: birth.kittyId,
+    matronId: birth.matronId,
+    sireId: birth.sireId,
+    owner: birth.owner,
+    // Kept as a decimal string: 256-bit integers don't fit a JSON number.
+    genes: birth.genes,
+    kai: genomeToKai(genome),
+    traits: DISPLAY_TRAIT_SLOTS.map((slot) => {
+      const trait = getTrait(genome, slot)!;
+      return {
+        slot,
+        label: TRAIT_LABELS[slot],
+        genes: GENE_POSITIONS.map((position) => {
+          const gene = trait.genes[position];
+          return {
+            position,
+            gene,
+            value: kaiToValue(gene),
+            cattribute: cattributeName(slot, gene) ?? null,
+            relation: cellCategory(role, relations[slot], position),
+            ...(role === "kitten" && {
+              origin: describeRelation(relations[slot][position]),
+            }),
+          };
+        }),
+      };
+    }),
+  }));
+  return JSON.stringify({ format: "kitty-genome/1", kitties }, null, 2) + "\n";
+}
+
+function csvField(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+// One row per kitty: IDs, the raw genes, each trait's dominant cattribute and
+// all 48 Kai genes.
+export function genomeCsv(births: Birth[]): string {
+  const header = [
+    "kittyId",
+    "matronId",
+    "sireId",
+    "owner",
+    "timestamp",
+    "genes",
+    "kai",
+    ...DISPLAY_TRAIT_SLOTS.flatMap((slot) => [
+      slot,
+      ...GENE_POSITIONS.map((position) => `${slot}_${position}`),
+    ]),
+  ];
+  const rows = births.flatMap((birth) => {
+    const genome = tryDecodeGenome(birth.genes);
+    if (!genome) return [];
+    return [
+      [
+        birth.kittyId,
+        birth.matronId,
+        birth.sireId,
+        birth.owner,
+        birth.timestamp,
+        birth.genes,
+        genomeToKai(genome),
+        ...DISPLAY_TRAIT_SLOTS.flatMap((slot) => {
+          const trait = getTrait(genome, slot)!;
+          return [
+            cattributeName(slot, trait.genes.D) ?? "",
+            ...GENE_POSITIONS.map((position) => trait.genes[position]),
+          ];
+        }),
+      ],
+    ];
+  });
+  return [header, ...rows]
+    .map((row) => row.map((v) => csvField(String(v))).join(","))
+    .join("\n")
+    .concat("\n");
+}
+
+// Hex equivalents of the grid's Tailwind background classes.
+const CATEGORY_FILLS: Record<RelationCategory, string> = {
+  both: "#a7f3d0",
+  matronDominant: "#fcd34d",
+  matronRecessive: "#fef3c7",
+  sireDominant: "#7dd3fc",
+  sireRecessive: "#e0f2fe",
+  mutation: "#f0abfc",
+  unknown: "#f1f5f9",
+};
+
+const CATEGORY_LABELS: Record<RelationCategory, string> = {
+  both: "Both parents",
+  matronDominant: "Matron dominant",
+  matronRecessive: "Matron recessive",
+  sireDominant: "Sire dominant",
+  sireRecessive: "Sire recessive",
+  mutation: "Mutation",
+  unknown: "Not passed on / untraced",
+};
+
+const CELL = 20;
+const CELL_GAP = 2;
+const QUAD_WIDTH = 4 * CELL + 3 * CELL_GAP;
+const COLUMN_GAP = 10;
+const LABEL_WIDTH = 110;
+const PADDING = 24;
+const ROW_HEIGHT = CELL + 34;
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+// The three-row grid with its legend as a standalone SVG document.
+export function genomeCardSvg(family: ExportFamily): string {
+  const rows = familyRows(family);
+  const relations = familyRelations(rows);
+  const width =
+    PADDING * 2 +
+    LABEL_WIDTH +
+    DISPLAY_TRAIT_SLOTS.length * (QUAD_WIDTH + COLUMN_GAP);
+  const gridTop = PADDING + 48;
+  const legendTop = gridTop + rows.length * ROW_HEIGHT + 16;
+  const height = legendTop + 40 + PADDING;
+  const kitten = family.kitten?.kittyId;
+  const parts: string[] = [];
+
+  parts.push(
+    `<text x="${PADDING}" y="${PADDING + 14}" font-size="16" font-weight="600">` +
+      escapeXml(kitten ? `Kitty #${kitten} genome` : "Genome") +
+      "</text>"
+  );
+  DISPLAY_TRAIT_SLOTS.forEach((slot, col) => {
+    const x =
+      PADDING + LABEL_WIDTH + col * (QUAD_WIDTH + COLUMN_GAP) + QUAD_WIDTH / 2;
+    parts.push(
+      `<text x="${x}" y="${gridTop - 10}" font-size="9" fill="#64748b" text-anchor="middle">` +
+        escapeXml(TRAIT_LABELS[slot]) +
+        "</text>"
+    );
+  });
+
+  rows.forEach(({ role, birth, genome }, row) => {
+    const y = gridTop + row * ROW_HEIGHT;
+    parts.push(
+      `<text x="${PADDING}" y="${y + 14}" font-size="12" font-weight="500">` +
+        `${ROLE_LABELS[role]} #${escapeXml(birth.kittyId)}</text>`
+    );
+    DISPLAY_TRAIT_SLOTS.forEach((slot, col) => {
+      const trait = getTrait(genome, slot)!;
+      const left = PADDING + LABEL_WIDTH + col * (QUAD_WIDTH + COLUMN_GAP);
+      [...GENE_POSITIONS].reverse().forEach((position, i) => {
+        const x = left + i * (CELL + CELL_GAP);
+        const category = cellCategory(role, relations[slot], position);
+        const isDominant = position === "D";
+        parts.push(
+          `<rect x="${x}" y="${y}" width="${CELL}" height="${CELL}" rx="3" fill="${CATEGORY_FILLS[category]}"` +
+            (isDominant ? ` stroke="#0f172a" stroke-width="1"` : "") +
+            "/>",
+          `<text x="${x + CELL / 2}" y="${y + 14}" font-size="11" text-anchor="middle"` +
+            (isDominant ? ` font-weight="700"` : ` fill="#334155"`) +
+            `>${escapeXml(trait.genes[position])}</text>`
+        );
+        if (category === "mutation") {
+          parts.push(
+            `<circle cx="${x + CELL - 1}" cy="${y + 1}" r="3" fill="#f43f5e"/>`
+          );
+        }
+      });
+      parts.push(
+        `<text x="${left + QUAD_WIDTH / 2}" y="${y + CELL + 12}" font-size="9" fill="#64748b" text-anchor="middle">` +
+          escapeXml(cattributeName(slot, trait.genes.D) ?? "—") +
+          "</text>"
+      );
+    });
+  });
+
+  let legendX = PADDING;
+  for (const category of Object.keys(CATEGORY_LABELS) as RelationCategory[]) {
+    const label = CATEGORY_LABELS[category];
+    parts.push(
+      `<rect x="${legendX}" y="${legendTop}" width="16" height="12" rx="2" fill="${CATEGORY_FILLS[category]}"/>`,
+      `<text x="${legendX + 22}" y="${legendTop + 10}" font-size="11" fill="#64748b">${escapeXml(label)}</text>`
+    );
+    // Fixed advance per character keeps the layout independent of fonts.
+    legendX += 22 + label.length * 6 + 18;
+  }
+  parts.push(
+    `<text x="${PADDING}" y="${legendTop + 32}" font-size="10" fill="#64748b">` +
+      "Dominant gene (outlined, rightmost) is visible in appearance. Kitten genes are coloured by where they came from, parent genes by whether they were passed on." +
+      "</text>"
+  );
+
+  return (
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}" font-family="ui-sans-serif, system-ui, sans-serif">\n` +
+    `<rect width="${width}" height="${height}" fill="#ffffff"/>\n` +
+    parts.join("\n") +
+    "\n</svg>\n"
+  );
+}
+
+// Rasterises an SVG document in the browser.
+export function svgToPng(svg: string, scale = 2): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    const image = new Image();
+    const url = URL.createObjectURL(new Blob([svg], { type: "image/svg+xml" }));
+    image.onload = () => {
+      const canvas = document.createElement("canvas");
+      canvas.width = image.width * scale;
+      canvas.height = image.height * scale;
+      const ctx = canvas.getContext("2d");
+      if (!ctx) {
+        URL.revokeObjectURL(url);
+        reject(new Error("Canvas is not available"));
+        return;
+      }
+      ctx.scale(scale, scale);
+      ctx.drawImage(image, 0, 0);
+      URL.revokeObjectURL(url);
+      canvas.toBlob((blob) =>
+        blob ? resolve(blob) : reject(new Error("PNG encoding failed"))
+      );
+    };
+    image.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error("Could not render the genome card"));
+    };
+    image.src = url;
+  });
+}
+
+export function downloadFile(filename: string, content: Blob | string) {
+  const blob =
+    typeof content === "string"
+      ? new Blob([content], { type: "text/plain" })
+      : content;
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  a.click();
+  // Firefox and Safari start the download asynchronously; revoking the URL
+  // straight away can cancel it.
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
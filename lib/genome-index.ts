@@ -0,0 +1,200 @@
+import { getDataSource } from "@/lib/data-source";
+import {
+  GENE_POSITIONS,
+  kaiToValue,
+  TRAIT_SLOTS,
+  tryDecodeGenome,
+  valueToKai,
+  type GenePosition,
+  type Genome,
+  type KaiGene,
+  type TraitSlot,
+} from "@/lib/genome";
+import { birthTime, type Birth } from "@/lib/gql";
+import { generationFromParents } from "@/lib/kitty-meta";
+
+// Decoded genes of every indexed kitty packed into one byte array (48 gene
+// values per kitty), so pattern queries scan tens of thousands of kitties
+// without re-decoding the 256-bit integers.
+
+const GENES_PER_KITTY = TRAIT_SLOTS.length * GENE_POSITIONS.length;
+const PAGE_SIZE = 1000;
+// Stored for kitties whose ancestry isn't fully in the index.
+export const UNKNOWN_GENERATION = 0xffff;
+
+export type GenomeIndex = {
+  size: number;
+  lastKittyId: string;
+  kittyIds: string[];
+  owners: string[];
+  matronIds: string[];
+  sireIds: string[];
+  genes: Uint8Array;
+  generations: Uint16Array;
+  // Birth times in unix seconds.
+  timestamps: Float64Array;
+};
+
+export type GeneCondition = {
+  slot: TraitSlot;
+  position: GenePosition;
+  gene: KaiGene;
+};
+
+export type GeneQuery = {
+  combinator: "and" | "or";
+  conditions: GeneCondition[];
+};
+
+export function createGenomeIndex(): GenomeIndex {
+  return {
+    size: 0,
+    lastKittyId: "0",
+    kittyIds: [],
+    owners: [],
+    matronIds: [],
+    sireIds: [],
+    genes: new Uint8Array(PAGE_SIZE * GENES_PER_KITTY),
+    generations: new Uint16Array(PAGE_SIZE),
+    timestamps: new Float64Array(PAGE_SIZE),
+  };
+}
+
+function geneOffset(slot: TraitSlot, position: GenePosition): number {
+  return (
+    TRAIT_SLOTS.indexOf(slot) * GENE_POSITIONS.length +
+    GENE_POSITIONS.indexOf(position)
+  );
+}
+
+// Gene value (0-31) of the kitty at `position` within the index.
+export function indexedGene(
+  index: GenomeIndex,
+  position: number,
+  slot: TraitSlot,
+  genePosition: GenePosition
+): number {
+  return index.genes[
+    position * GENES_PER_KITTY + geneOffset(slot, genePosition)
+  ];
+}
+
+// Position of `kittyId` within the index, by binary search over the sorted
+// IDs, or -1.
+export function indexPosition(index: GenomeIndex, kittyId: string): number {
+  const id = Number(kittyId);
+  let lo = 0;
+  let hi = index.size - 1;
+  while (lo <= hi) {
+    const mid = (lo + hi) >> 1;
+    const midId = Number(index.kittyIds[mid]);
+    if (midId === id) return mid;
+    if (midId < id) lo = mid + 1;
+    else hi = mid - 1;
+  }
+  return -1;
+}
+
+function indexedGeneration(index: GenomeIndex, kittyId: string) {
+  const position = indexPosition(index, kittyId);
+  if (position < 0) return undefined;
+  const generation = index.generations[position];
+  return generation === UNKNOWN_GENERATION ? undefined : generation;
+}
+
+// A view of `index` as it stands now. Later births land past its `size`, and
+// columns that grow are copied to new arrays, so the rows it covers never
+// change.
+export function snapshotGenomeIndex(index: GenomeIndex): GenomeIndex {
+  return { ...index };
+}
+
+// Appends births in kittyId order to `index` in place. Parents always precede
+// their kittens, so generations resolve as the index grows.
+export function addBirthsToIndex(index: GenomeIndex, births: Birth[]) {
+  const needed = (index.size + births.length) * GENES_PER_KITTY;
+  if (needed > index.genes.length) {
+    const grown = new Uint8Array(Math.max(needed, index.genes.length * 2));
+    grown.set(index.genes);
+    index.genes = grown;
+    const generations = new Uint16Array(grown.length / GENES_PER_KITTY);
+    generations.set(index.generations);
+    index.generations = generations;
+    const timestamps = new Float64Array(generations.length);
+    timestamps.set(index.timestamps);
+    index.timestamps = timestamps;
+  }
+  for (const birth of births) {
+    const genome = tryDecodeGenome(birth.genes);
+    if (!genome) continue;
+    const base = index.size * GENES_PER_KITTY;
+    genome.forEach((trait, traitIdx) => {
+      GENE_POSITIONS.forEach((position, posIdx) => {
+        index.genes[base + traitIdx * GENE_POSITIONS.length + posIdx] =
+          kaiToValue(trait.genes[position]);
+      });
+    });
+    index.generations[index.size] =
+      generationFromParents(birth, (id) => indexedGeneration(index, id)) ??
+      UNKNOWN_GENERATION;
+    index.timestamps[index.size] = birthTime(birth);
+    index.kittyIds.push(birth.kittyId);
+    index.owners.push(birth.owner.toLowerCase());
+    index.matronIds.push(birth.matronId);
+    index.sireIds.push(birth.sireId);
+    index.size++;
+    index.lastKittyId = birth.kittyId;
+  }
+}
+
+export async function buildGenomeIndex(
+  index: GenomeIndex,
+  onProgress?: (index: GenomeIndex) => void
+): Promise<GenomeIndex> {
+  const source = getDataSource();
+  for (;;) {
+    const page = await source.getBirthsPage(index.lastKittyId, PAGE_SIZE);
+    if (page.length === 0) break;
+    addBirthsToIndex(index, page);
+    onProgress?.(index);
+    if (page.length < PAGE_SIZE) break;
+  }
+  return index;
+}
+
+// Genome of the kitty at `position` within the index.
+export function indexedGenome(index: GenomeIndex, position: number): Genome {
+  const base = position * GENES_PER_KITTY;
+  return TRAIT_SLOTS.map((slot, traitIdx) => {
+    const genes = {} as Record<GenePosition, KaiGene>;
+    GENE_POSITIONS.forEach((pos, posIdx) => {
+      genes[pos] = valueToKai(
+        index.genes[base + traitIdx * GENE_POSITIONS.length + posIdx]
+      );
+    });
+    return { slot, genes };
+  });
+}
+
+// Positions within the index of kitties matching `query`, in kittyId order.
+// An empty query matches nothing.
+export function searchGenomeIndex(
+  index: GenomeIndex,
+  query: GeneQuery
+): number[] {
+  if (query.conditions.length === 0) return [];
+  const checks = query.conditions.map((c) => ({
+    offset: geneOffset(c.slot, c.position),
+    value: kaiToValue(c.gene),
+  }));
+  const matches: number[] = [];
+  for (let i = 0; i < index.size; i++) {
+    const base = i * GENES_PER_KITTY;
+    const hit =
+      query.combinator === "and"
+        ? checks.every((c) => index.genes[base + c.offset] === c.value)
+        : checks.some((c) => index.genes[base + c.offset] === c.value);
+    if (hit) matches.push(i);
+  }
+  return matches;
+}
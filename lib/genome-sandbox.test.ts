@@ -0,0 +1,38 @@
+import { describe, expect, it } from "vitest";
+import { CATTRIBUTES } from "@/lib/cattributes";
+import { encodeGenome, genomeToKai, kaiToGenome } from "@/lib/genome";
+import { geneChoices, parseGenomeInput } from "@/lib/genome-sandbox";
+
+describe("geneChoices", () => {
+  it("offers only the genes that name one of the slot's cattributes", () => {
+    const choices = geneChoices("mouth", "2");
+    expect(choices).toHaveLength(Object.keys(CATTRIBUTES.mouth).length);
+    expect(choices.every((c) => c.name)).toBe(true);
+    expect(choices.find((c) => c.gene === "2")?.name).toBe("wolfgang");
+  });
+
+  it("keeps the current gene when it names no cattribute", () => {
+    const choices = geneChoices("wild", "1");
+    expect(choices[0]).toEqual({ gene: "1", name: undefined });
+    expect(choices.slice(1).every((c) => c.name)).toBe(true);
+  });
+
+  it("offers every gene for slots without known cattributes", () => {
+    expect(geneChoices("secret", "1")).toHaveLength(32);
+  });
+});
+
+describe("parseGenomeInput", () => {
+  it("reads 48 all-digit Kai characters as Kai, not decimal", () => {
+    const kai = "123456789".repeat(6).slice(0, 48);
+    expect(genomeToKai(parseGenomeInput(kai))).toBe(kai);
+  });
+
+  it("still reads longer decimal genes as an integer", () => {
+    const genome = kaiToGenome(
+      "ccac7787fa7fafaa16467755f9ee444467667366cccceede"
+    );
+    const decimal = encodeGenome(genome).toString();
+    expect(parseGenomeInput(decimal)).toEqual(genome);
+  });
+});
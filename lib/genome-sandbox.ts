@@ -0,0 +1,73 @@
+import { CATTRIBUTES } from "@/lib/cattributes";
+import {
+  decodeGenome,
+  encodeGenome,
+  GENE_POSITIONS,
+  KAI_ALPHABET,
+  kaiToGenome,
+  TRAIT_SLOTS,
+  type GenePosition,
+  type Genome,
+  type KaiGene,
+  type TraitSlot,
+} from "@/lib/genome";
+
+// Helpers for editing hypothetical genomes gene by gene.
+
+// Every gene set to the lowest Kai value.
+export function blankGenome(): Genome {
+  return TRAIT_SLOTS.map((slot) => {
+    const genes = {} as Record<GenePosition, KaiGene>;
+    for (const position of GENE_POSITIONS) genes[position] = KAI_ALPHABET[0];
+    return { slot, genes };
+  });
+}
+
+// A copy of `genome` with one gene replaced.
+export function withGene(
+  genome: Genome,
+  slot: TraitSlot,
+  position: GenePosition,
+  gene: KaiGene
+): Genome {
+  return genome.map((trait) =>
+    trait.slot === slot
+      ? { slot, genes: { ...trait.genes, [position]: gene } }
+      : trait
+  );
+}
+
+export type GeneChoice = { gene: KaiGene; name?: string };
+
+// The genes a slot's picker offers: those naming one of the slot's
+// cattributes, plus `current` when it names none. Slots without any known
+// cattributes (secret, purrstige) offer every gene.
+export function geneChoices(slot: TraitSlot, current: KaiGene): GeneChoice[] {
+  const table = CATTRIBUTES[slot];
+  const isNamed = Object.keys(table).length > 0;
+  return KAI_ALPHABET.split("")
+    .filter((gene) => !isNamed || table[gene] || gene === current)
+    .map((gene) => ({ gene, name: table[gene] }));
+}
+
+export function genomeHex(genome: Genome): string {
+  return "0x" + encodeGenome(genome).toString(16).padStart(64, "0");
+}
+
+const KAI_GENOME = new RegExp(`^[${KAI_ALPHABET}]{48}$`);
+
+// Reads genes pasted from another tool: a decimal integer, a 0x-prefixed hex
+// integer or a 48-character Kai string. Exactly 48 Kai characters are read as
+// Kai even when they're all digits.
+export function parseGenomeInput(input: string): Genome {
+  const compact = input.trim().replace(/\s+/g, "");
+  if (!compact) throw new Error("Paste a genes value to import");
+  if (KAI_GENOME.test(compact)) return kaiToGenome(compact);
+  if (/^\d+$/.test(compact) || /^0x[0-9a-f]+$/i.test(compact)) {
+    return decodeGenome(compact);
+  }
+  if (new RegExp(`^[${KAI_ALPHABET}]+$`).test(compact)) {
+    return kaiToGenome(compact);
+  }
+  throw new Error("Not a decimal, hex or Kai genes value");
+}
@@ -0,0 +1,125 @@
+import { describe, expect, it } from "vitest";
+import {
+  decodeGenome,
+  encodeGenome,
+  genomeToKai,
+  getTrait,
+  kaiToGenome,
+  kaiToValue,
+  tryDecodeGenome,
+  valueToKai,
+  TRAIT_SLOTS,
+} from "@/lib/genome";
+import {
+  FIXTURE_BIRTHS,
+  fixtureBirth,
+  fixtureGenome,
+  ON_CHAIN_KITTIES,
+} from "@/test/fixtures";
+
+describe("Kai genes", () => {
+  it("maps the 32 Kai characters to 0-31, skipping l", () => {
+    expect(kaiToValue("1")).toBe(0);
+    expect(kaiToValue("9")).toBe(8);
+    expect(kaiToValue("a")).toBe(9);
+    expect(kaiToValue("k")).toBe(19);
+    expect(kaiToValue("m")).toBe(20);
+    expect(kaiToValue("x")).toBe(31);
+    expect(valueToKai(20)).toBe("m");
+  });
+
+  it("rejects characters and values outside the alphabet", () => {
+    expect(() => kaiToValue("l")).toThrow(RangeError);
+    expect(() => kaiToValue("11")).toThrow(RangeError);
+    expect(() => valueToKai(32)).toThrow(RangeError);
+    expect(() => valueToKai(1.5)).toThrow(RangeError);
+  });
+});
+
+describe("decodeGenome", () => {
+  it("reads 5-bit genes from the least significant trait upwards", () => {
+    // Body D is bits 0-4, body R1 bits 5-9, pattern D bits 20-24.
+    const genome = decodeGenome(
+      BigInt(2) | (BigInt(3) << BigInt(5)) | (BigInt(31) << BigInt(20))
+    );
+    expect(genome.map((t) => t.slot)).toEqual([...TRAIT_SLOTS]);
+    expect(getTrait(genome, "body")?.genes).toEqual({
+      D: "3",
+      R1: "4",
+      R2: "1",
+      R3: "1",
+    });
+    expect(getTrait(genome, "pattern")?.genes.D).toBe("x");
+    expect(getTrait(genome, "prestige")?.genes.R3).toBe("1");
+  });
+
+  it.each(ON_CHAIN_KITTIES)(
+    "decodes #$kittyId $name to its published Kai genes",
+    ({ genes, kai }) => {
+      const genome = decodeGenome(genes);
+      expect(genomeToKai(genome)).toBe(kai);
+      expect(kaiToGenome(kai)).toEqual(genome);
+      expect(encodeGenome(genome).toString()).toBe(genes);
+    }
+  );
+
+  it("reads #1 Genesis's body and purrstige genes", () => {
+    const genome = decodeGenome(ON_CHAIN_KITTIES[0].genes);
+    // The Kai string ends ...eede: body R3 R2 R1 D.
+    expect(getTrait(genome, "body")?.genes).toEqual({
+      D: "e",
+      R1: "d",
+      R2: "e",
+      R3: "e",
+    });
+    // And starts ccac: purrstige R3 R2 R1 D.
+    expect(getTrait(genome, "prestige")?.genes).toEqual({
+      D: "c",
+      R1: "a",
+      R2: "c",
+      R3: "c",
+    });
+  });
+
+  it("round-trips every fixture kitty through decimal and Kai", () => {
+    for (const birth of FIXTURE_BIRTHS) {
+      const genome = decodeGenome(birth.genes);
+      expect(encodeGenome(genome).toString()).toBe(birth.genes);
+      expect(kaiToGenome(genomeToKai(genome))).toEqual(genome);
+    }
+  });
+
+  it("writes Kai strings most significant gene first", () => {
+    const kai = genomeToKai(fixtureGenome("900000055"));
+    expect(kai).toBe("g581g1c78fce7d2gc7ge5df1gd3899dfa38afagg7b1358da");
+    // The body dominant gene is the last character.
+    expect(getTrait(fixtureGenome("900000055"), "body")?.genes.D).toBe("a");
+  });
+
+  it("accepts hex strings like BigInt does", () => {
+    const genes = fixtureBirth("900000001").genes;
+    const hex = "0x" + BigInt(genes).toString(16);
+    expect(decodeGenome(hex)).toEqual(decodeGenome(genes));
+  });
+
+  it("rejects values that don't fit in 256 bits", () => {
+    expect(() => decodeGenome(BigInt(-1))).toThrow(RangeError);
+    expect(() => decodeGenome(BigInt(1) << BigInt(256))).toThrow(RangeError);
+    expect(() => kaiToGenome("123")).toThrow(RangeError);
+  });
+
+  it("returns null from tryDecodeGenome for missing or malformed genes", () => {
+    expect(tryDecodeGenome(undefined)).toBeNull();
+    expect(tryDecodeGenome("")).toBeNull();
+    expect(tryDecodeGenome("not a number")).toBeNull();
+    expect(tryDecodeGenome(fixtureBirth("900000002").genes)).toHaveLength(12);
+  });
+});
+
+describe("encodeGenome", () => {
+  it("rejects genomes with traits missing or out of order", () => {
+    const genome = fixtureGenome("900000003");
+    expect(() => encodeGenome(genome.slice(1))).toThrow(RangeError);
+    expect(() => encodeGenome([...genome].reverse())).toThrow(RangeError);
+  });
+});
@@ -0,0 +1,138 @@
+// CryptoKitties genomes are 256-bit integers. The low 240 bits hold 48 genes of
+// 5 bits each, written in "Kai" base32. Genes are grouped into 12 traits of 4:
+// within a trait the lowest gene is dominant (D), followed by the hidden
+// recessives R1, R2 and R3. The top 16 bits are unused.
+
+export const KAI_ALPHABET = "123456789abcdefghijkmnopqrstuvwx";
+
+export type KaiGene = string;
+
+export const GENE_POSITIONS = ["D", "R1", "R2", "R3"] as const;
+export type GenePosition = (typeof GENE_POSITIONS)[number];
+
+// Ordered from the least significant trait (bits 0-19) upwards.
+export const TRAIT_SLOTS = [
+  "body",
+  "pattern",
+  "eyeColor",
+  "eyeShape",
+  "baseColor",
+  "highlightColor",
+  "accentColor",
+  "wild",
+  "mouth",
+  "environment",
+  "secret",
+  "prestige",
+] as const;
+export type TraitSlot = (typeof TRAIT_SLOTS)[number];
+
+export type TraitGenes = {
+  slot: TraitSlot;
+  genes: Record<GenePosition, KaiGene>;
+};
+
+export type Genome = TraitGenes[];
+
+const ZERO = BigInt(0);
+const GENE_BITS = BigInt(5);
+const GENE_MASK = BigInt(0x1f);
+const GENE_COUNT = TRAIT_SLOTS.length * GENE_POSITIONS.length;
+const MAX_GENES = (BigInt(1) << BigInt(256)) - BigInt(1);
+
+function geneShift(traitIdx: number, posIdx: number): bigint {
+  return BigInt(traitIdx * GENE_POSITIONS.length + posIdx) * GENE_BITS;
+}
+
+export function kaiToValue(gene: KaiGene): number {
+  const value = KAI_ALPHABET.indexOf(gene);
+  if (gene.length !== 1 || value < 0) {
+    throw new RangeError(`Invalid Kai gene "${gene}"`);
+  }
+  return value;
+}
+
+export function valueToKai(value: number): KaiGene {
+  const gene = KAI_ALPHABET[value];
+  if (!Number.isInteger(value) || gene === undefined) {
+    throw new RangeError(`Gene value out of range: ${value}`);
+  }
+  return gene;
+}
+
+export function decodeGenome(value: bigint | string): Genome {
+  const big = typeof value === "bigint" ? value : BigInt(value);
+  if (big < ZERO || big > MAX_GENES) {
+    throw new RangeError("Genes must be an unsigned 256-bit integer");
+  }
+  return TRAIT_SLOTS.map((slot, traitIdx) => {
+    const genes = {} as Record<GenePosition, KaiGene>;
+    GENE_POSITIONS.forEach((position, posIdx) => {
+      const shift = geneShift(traitIdx, posIdx);
+      genes[position] = valueToKai(Number((big >> shift) & GENE_MASK));
+    });
+    return { slot, genes };
+  });
+}
+
+export function encodeGenome(genome: Genome): bigint {
+  if (genome.length !== TRAIT_SLOTS.length) {
+    throw new RangeError(`Expected ${TRAIT_SLOTS.length} traits`);
+  }
+  let big = ZERO;
+  TRAIT_SLOTS.forEach((slot, traitIdx) => {
+    const trait = genome[traitIdx];
+    if (trait.slot !== slot) {
+      throw new RangeError(`Trait ${traitIdx} should be "${slot}"`);
+    }
+    GENE_POSITIONS.forEach((position, posIdx) => {
+      const value = BigInt(kaiToValue(trait.genes[position]));
+      big |= value << geneShift(traitIdx, posIdx);
+    });
+  });
+  return big;
+}
+
+// Decodes the decimal `Birth.genes` string, returning null when it is missing
+// or malformed so callers can render an empty grid instead of failing.
+export function tryDecodeGenome(genes?: string | null): Genome | null {
+  if (!genes) return null;
+  try {
+    return decodeGenome(genes);
+  } catch {
+    return null;
+  }
+}
+
+// The conventional 48-character Kai string: most significant gene first, so
+// each trait reads R3 R2 R1 D and the body dominant is the last character.
+export function genomeToKai(genome: Genome): string {
+  return genome
+    .map((trait) =>
+      [...GENE_POSITIONS]
+        .reverse()
+        .map((position) => trait.genes[position])
+        .join("")
+    )
+    .reverse()
+    .join("");
+}
+
+export function kaiToGenome(kai: string): Genome {
+  const compact = kai.replace(/\s+/g, "");
+  if (compact.length !== GENE_COUNT) {
+    throw new RangeError(`Expected ${GENE_COUNT} Kai genes`);
+  }
+  let big = ZERO;
+  for (const gene of compact) {
+    big = (big << GENE_BITS) | BigInt(kaiToValue(gene));
+  }
+  return decodeGenome(big);
+}
+
+export function getTrait(
+  genome: Genome | null | undefined,
+  slot: TraitSlot
+): TraitGenes | undefined {
+  return genome?.[TRAIT_SLOTS.indexOf(slot)];
+}
@@ -0,0 +1,44 @@
+export type Birth = {
+  id: string;
+  owner: string;
+  kittyId: string;
+  matronId: string;
+  sireId: string;
+  genes: string;
+  timestamp: string;
+};
+
+// Birth time in unix seconds. Timestamps may be unix seconds or ISO strings
+// depending on the indexer.
+export function birthTime(birth: Birth): number {
+  const n = Number(birth.timestamp);
+  return Number.isNaN(n) ? Date.parse(birth.timestamp) / 1000 : n;
+}
+
+export type BirthQuery = {
+  KittyCore_Birth: Array<Birth>;
+};
+
+export const GQL_ENDPOINT =
+  process.env.NEXT_PUBLIC_GQL_ENDPOINT || "http://localhost:8080/v1/graphql";
+
+export async function gql<T>(
+  query: string,
+  variables?: Record<string, unknown>
+): Promise<T> {
+  const res = await fetch(GQL_ENDPOINT, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ query, variables }),
+    cache: "no-store",
+  });
+  if (!res.ok) throw new Error(`GraphQL error ${res.status}`);
+  const json = await res.json();
+  if (json.errors) throw new Error(JSON.stringify(json.errors));
+  return json.data as T;
+}
+
+export function kittyImageUrl(id?: string) {
+  if (!id) return undefined;
+  return `https://img.cryptokitties.co/0x06012c8cf97bead5deae237070f9587f8e7a266d/${id}.svg`;
+}
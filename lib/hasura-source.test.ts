@@ -0,0 +1,56 @@
+import { describe, expect, it, vi } from "vitest";
+import { hasuraSource } from "@/lib/hasura-source";
+import { FIXTURE_BIRTHS } from "@/test/fixtures";
+import { jsonResponse, mockGraphql } from "@/test/graphql";
+
+describe("hasuraSource owner lookups", () => {
+  it("passes the owner through as a literal pattern", async () => {
+    const requests = mockGraphql();
+    const owner = FIXTURE_BIRTHS[0].owner;
+    const births = await hasuraSource.getBirthsByOwner(owner.toUpperCase());
+    expect(births.length).toBeGreaterThan(0);
+    await hasuraSource.getBirthsByOwner("%");
+    await hasuraSource.getBirthsByOwner("0x_\\");
+    await hasuraSource.getBirthsPage("0", 10, { owner: "%" });
+    expect(requests.map((r) => r.variables.owner)).toEqual([
+      owner.toUpperCase(),
+      "\\%",
+      "0x\\_\\\\",
+      "\\%",
+    ]);
+  });
+});
+
+describe("hasuraSource.sampleBirths", () => {
+  it("looks up each pick by kittyId and wraps round past the last", async () => {
+    const [first, second] = FIXTURE_BIRTHS;
+    const queries: string[] = [];
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async (_: RequestInfo | URL, init?: RequestInit) => {
+        const { query } = JSON.parse(String(init?.body));
+        queries.push(query);
+        if (query.includes("MaxId")) {
+          return jsonResponse({
+            data: { KittyCore_Birth: [{ kittyId: second.kittyId }] },
+          });
+        }
+        return jsonResponse({
+          data: { first: [first], s0: [second], s1: [] },
+        });
+      })
+    );
+    const births = await hasuraSource.sampleBirths(2, { bred: true });
+    expect(births.map((b) => b.kittyId)).toEqual([
+      second.kittyId,
+      first.kittyId,
+    ]);
+    expect(queries[1]).toMatch(/kittyId: \{_gte: \d+\}/);
+    expect(queries[1]).not.toMatch(/offset|aggregate/);
+  });
+
+  it("returns nothing when no birth matches", async () => {
+    mockGraphql({ births: [] });
+    expect(await hasuraSource.sampleBirths(4)).toEqual([]);
+  });
+});
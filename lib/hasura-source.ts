@@ -0,0 +1,169 @@
+import type { BirthDataSource, BirthFilter } from "@/lib/data-source";
+import { gql, type Birth, type BirthQuery } from "@/lib/gql";
+
+export const BIRTH_FIELDS = `
+  id
+  owner
+  kittyId
+  matronId
+  sireId
+  genes
+  timestamp
+`;
+
+// Addresses are matched with `_ilike` to ignore checksum casing; escaping
+// keeps `%` and `_` in user input from acting as wildcards.
+function ownerPattern(owner: string): string {
+  return owner.replace(/[\\%_]/g, "\\$&");
+}
+
+// `where` conditions for `filter`, with the query parameters they use.
+function filterConditions(filter: BirthFilter = {}) {
+  const conditions: string[] = [];
+  const params: string[] = [];
+  const variables: Record<string, unknown> = {};
+  if (filter.owner) {
+    conditions.push("{owner: {_ilike: $owner}}");
+    params.push("$owner: String!");
+    variables.owner = ownerPattern(filter.owner);
+  }
+  if (filter.bred !== undefined) {
+    conditions.push(`{matronId: {${filter.bred ? "_neq" : "_eq"}: 0}}`);
+  }
+  return { conditions, params, variables };
+}
+
+export const hasuraSource: BirthDataSource = {
+  name: "hasura",
+  supportsSubscriptions: true,
+
+  async getBirthsByKittyIds(kittyIds) {
+    const q = `
+      query BirthsByKittyIds($ids: [numeric!]) {
+        KittyCore_Birth(where: {kittyId: {_in: $ids}}) {
+          ${BIRTH_FIELDS}
+        }
+      }
+    `;
+    const data = await gql<BirthQuery>(q, { ids: kittyIds });
+    return data.KittyCore_Birth;
+  },
+
+  async getLatestBirths(limit) {
+    const q = `
+      query LatestBirths($limit: Int!) {
+        KittyCore_Birth(limit: $limit, order_by: {timestamp: desc}) {
+          ${BIRTH_FIELDS}
+        }
+      }
+    `;
+    const data = await gql<BirthQuery>(q, { limit });
+    return data.KittyCore_Birth;
+  },
+
+  async getChildren(kittyId) {
+    const q = `
+      query Children($id: numeric!) {
+        KittyCore_Birth(
+          where: {_or: [{matronId: {_eq: $id}}, {sireId: {_eq: $id}}]}
+          order_by: {kittyId: asc}
+        ) {
+          ${BIRTH_FIELDS}
+        }
+      }
+    `;
+    const data = await gql<BirthQuery>(q, { id: kittyId });
+    return data.KittyCore_Birth;
+  },
+
+  async getBirthsByOwner(owner) {
+    const q = `
+      query BirthsByOwner($owner: String!) {
+        KittyCore_Birth(
+          where: {owner: {_ilike: $owner}}
+          order_by: {kittyId: asc}
+        ) {
+          ${BIRTH_FIELDS}
+        }
+      }
+    `;
+    const data = await gql<BirthQuery>(q, { owner: ownerPattern(owner) });
+    return data.KittyCore_Birth;
+  },
+
+  async getMaxKittyId() {
+    const q = `
+      query MaxId {
+        KittyCore_Birth(limit: 1, order_by: {kittyId: desc}) {
+          kittyId
+        }
+      }
+    `;
+    type MaxIdQuery = { KittyCore_Birth: Array<{ kittyId: string }> };
+    const data = await gql<MaxIdQuery>(q);
+    return data.KittyCore_Birth[0]?.kittyId;
+  },
+
+  async getBirthsPage(afterKittyId, limit, filter) {
+    const { conditions, params, variables } = filterConditions(filter);
+    const declared = ["$after: numeric!", "$limit: Int!", ...params].join(", ");
+    const q = `
+      query BirthsPage(${declared}) {
+        KittyCore_Birth(
+          where: {_and: [{kittyId: {_gt: $after}}, ${conditions.join(", ")}]}
+          order_by: {kittyId: asc}
+          limit: $limit
+        ) {
+          ${BIRTH_FIELDS}
+        }
+      }
+    `;
+    const data = await gql<BirthQuery>(q, {
+      ...variables,
+      after: afterKittyId,
+      limit,
+    });
+    return data.KittyCore_Birth;
+  },
+
+  // Draws random kittyIds up to the highest one and takes the first matching
+  // birth at or after each, wrapping round to the lowest match when a draw
+  // lands past the last. Every pick is one indexed lookup, sent as aliases of
+  // a single request; a kitty just after a gap in the IDs is drawn more often.
+  async sampleBirths(count, filter) {
+    const maxKittyId = Number(await hasuraSource.getMaxKittyId());
+    if (!maxKittyId) return [];
+    const { conditions, params, variables } = filterConditions(filter);
+    const picks = Array.from({ length: count }, (_, i) => {
+      const from = Math.floor(Math.random() * maxKittyId) + 1;
+      return `
+        s${i}: KittyCore_Birth(
+          where: {_and: [{kittyId: {_gte: ${from}}}, ${conditions.join(", ")}]}
+          order_by: {kittyId: asc}
+          limit: 1
+        ) {
+          ${BIRTH_FIELDS}
+        }
+      `;
+    });
+    const declared = params.length > 0 ? `(${params.join(", ")})` : "";
+    const data = await gql<Record<string, Birth[]>>(
+      `
+      query SampleBirths${declared} {
+        first: KittyCore_Birth(
+          where: {_and: [${conditions.join(", ")}]}
+          order_by: {kittyId: asc}
+          limit: 1
+        ) {
+          ${BIRTH_FIELDS}
+        }
+        ${picks.join("")}
+      }
+    `,
+      variables
+    );
+    const [first] = data.first;
+    if (!first) return [];
+    return picks.map((_, i) => data[`s${i}`][0] ?? first);
+  },
+};
@@ -0,0 +1,225 @@
+import { describe, expect, it } from "vitest";
+import {
+  GENE_POSITIONS,
+  getTrait,
+  tryDecodeGenome,
+  type TraitGenes,
+  type TraitSlot,
+} from "@/lib/genome";
+import {
+  deriveGeneRelation,
+  deriveTraitRelations,
+  describeRelation,
+  findMutations,
+  hasMutation,
+  parentGeneCategory,
+  relationCategory,
+} from "@/lib/inheritance";
+import { DISPLAY_TRAIT_SLOTS } from "@/lib/cattributes";
+import { FIXTURE_BIRTHS, fixtureFamily, fixtureGenome } from "@/test/fixtures";
+
+// A trait from its genes in D R1 R2 R3 order, e.g. trait("1 2 3 4").
+function trait(genes: string, slot: TraitSlot = "body"): TraitGenes {
+  const [D, R1, R2, R3] = genes.split(" ");
+  return { slot, genes: { D, R1, R2, R3 } };
+}
+
+describe("deriveGeneRelation", () => {
+  it("traces a gene to the parent slot it came from", () => {
+    const relation = deriveGeneRelation(
+      trait("1 2 3 4"),
+      trait("5 6 7 8"),
+      trait("6 1 3 5"),
+      "D"
+    );
+    expect(relation).toEqual({
+      kind: "inherited",
+      origins: [{ parent: "sire", position: "R1", gene: "6" }],
+    });
+    expect(relationCategory(relation)).toBe("sireRecessive");
+  });
+
+  it("records both parents when each carries the gene", () => {
+    const relation = deriveGeneRelation(
+      trait("1 2 3 4"),
+      trait("5 6 7 1"),
+      trait("1 2 3 4"),
+      "D"
+    );
+    expect(relation.kind === "inherited" && relation.origins).toEqual([
+      { parent: "matron", position: "D", gene: "1" },
+      { parent: "sire", position: "R3", gene: "1" },
+    ]);
+    expect(relationCategory(relation)).toBe("both");
+  });
+
+  it("prefers the parent slot closest to the kitten's", () => {
+    const relation = deriveGeneRelation(
+      trait("9 9 2 2"),
+      trait("5 6 7 8"),
+      trait("3 4 2 1"),
+      "R2"
+    );
+    expect(relation.kind === "inherited" && relation.origins).toEqual([
+      { parent: "matron", position: "R2", gene: "2" },
+    ]);
+  });
+
+  it("never traces a gene more than one slot away from D", () => {
+    const matron = trait("1 2 3 4");
+    const sire = trait("5 6 7 8");
+    // A swap moves a gene at most one slot away from D.
+    expect(deriveGeneRelation(matron, sire, trait("2 3 4 1"), "R3")).toEqual({
+      kind: "unknown",
+    });
+    expect(deriveGeneRelation(matron, sire, trait("2 3 1 4"), "R2")).toEqual({
+      kind: "unknown",
+    });
+    expect(deriveGeneRelation(matron, sire, trait("3 4 2 1"), "R2")).toEqual({
+      kind: "inherited",
+      origins: [{ parent: "matron", position: "R1", gene: "2" }],
+    });
+    // Parent genes no kitten gene can have come from stay uncoloured.
+    const relations = deriveTraitRelations(matron, sire, trait("2 3 4 1"));
+    expect(parentGeneCategory("matron", "D", relations)).toBeNull();
+  });
+
+  it("recognises a dominant mutation of the parents' dominant genes", () => {
+    const relation = deriveGeneRelation(
+      trait("2 5 5 5"),
+      trait("1 6 6 6"),
+      trait("h 5 6 5"),
+      "D"
+    );
+    expect(relation).toEqual({
+      kind: "mutation",
+      origins: [
+        { parent: "matron", position: "D", gene: "2" },
+        { parent: "sire", position: "D", gene: "1" },
+      ],
+      fromTier: 0,
+      tier: 1,
+    });
+    expect(relationCategory(relation)).toBe("mutation");
+    expect(describeRelation(relation)).toBe(
+      "mutation of 2 (matron D) + 1 (sire D): Base → Mewtation I"
+    );
+  });
+
+  it("only calls a gene a mutation when both parents carry the pair", () => {
+    const kitten = trait("h 5 6 5");
+    // Hidden genes can be swapped into the dominant slot before mutating.
+    expect(
+      deriveGeneRelation(trait("5 2 5 5"), trait("1 6 6 6"), kitten, "D")
+    ).toMatchObject({
+      kind: "mutation",
+      origins: [{ parent: "matron", position: "R1", gene: "2" }, {}],
+    });
+    expect(
+      deriveGeneRelation(trait("3 5 5 5"), trait("1 6 6 6"), kitten, "D")
+    ).toEqual({ kind: "unknown" });
+    // Mutations only ever show up as the dominant gene.
+    expect(
+      deriveGeneRelation(trait("2 5 5 5"), trait("1 6 6 6"), kitten, "R1")
+    ).toEqual({ kind: "inherited", origins: [expect.anything()] });
+    expect(
+      deriveGeneRelation(
+        trait("2 5 5 5"),
+        trait("1 6 6 6"),
+        trait("5 h 6 5"),
+        "R1"
+      )
+    ).toEqual({ kind: "unknown" });
+  });
+
+  it("is unknown without both parents", () => {
+    const kitten = trait("1 2 3 4");
+    expect(
+      deriveGeneRelation(undefined, trait("1 2 3 4"), kitten, "D").kind
+    ).toBe("unknown");
+    expect(
+      deriveGeneRelation(trait("1 2 3 4"), undefined, kitten, "D").kind
+    ).toBe("unknown");
+    expect(
+      deriveGeneRelation(trait("1 2 3 4"), trait("1 2 3 4"), undefined, "D")
+        .kind
+    ).toBe("unknown");
+  });
+});
+
+describe("parentGeneCategory", () => {
+  it("colours parent genes by the kitten gene they were passed on to", () => {
+    const relations = deriveTraitRelations(
+      trait("1 2 3 4"),
+      trait("5 6 7 8"),
+      trait("6 1 7 9")
+    );
+    expect(parentGeneCategory("matron", "D", relations)).toBe("matronDominant");
+    expect(parentGeneCategory("sire", "R1", relations)).toBe("sireRecessive");
+    expect(parentGeneCategory("sire", "R2", relations)).toBe("sireRecessive");
+    expect(parentGeneCategory("matron", "R3", relations)).toBeNull();
+    expect(hasMutation(relations)).toBe(false);
+  });
+});
+
+describe("fixture kitties", () => {
+  it("finds the mutations in the sample dump", () => {
+    const byId = new Map(FIXTURE_BIRTHS.map((b) => [b.kittyId, b]));
+    const found = FIXTURE_BIRTHS.flatMap((birth) => {
+      const k = tryDecodeGenome(birth.genes);
+      const m = tryDecodeGenome(byId.get(birth.matronId)?.genes);
+      const s = tryDecodeGenome(byId.get(birth.sireId)?.genes);
+      if (!k || !m || !s) return [];
+      return findMutations(k, m, s).map(
+        (mutation) => `#${birth.kittyId} ${mutation.slot} ${mutation.position}`
+      );
+    });
+    expect(found).toEqual([
+      "#900000012 secret D",
+      "#900000015 environment D",
+      "#900000019 pattern D",
+      "#900000019 eyeShape D",
+      "#900000025 prestige D",
+      "#900000030 mouth D",
+      "#900000041 wild D",
+      "#900000042 pattern D",
+      "#900000048 accentColor D",
+    ]);
+  });
+
+  // The categories behind the kitten row of the genome grid, in display
+  // order, so a change to how genes are traced shows up as a diff here.
+  it("derives the genome grid for kitty #900000019", () => {
+    const kitten = fixtureGenome("900000019");
+    const { matron, sire } = fixtureFamily("900000019");
+    const m = tryDecodeGenome(matron.genes);
+    const s = tryDecodeGenome(sire.genes);
+    const grid = DISPLAY_TRAIT_SLOTS.map((slot) => {
+      const relations = deriveTraitRelations(
+        getTrait(m, slot),
+        getTrait(s, slot),
+        getTrait(kitten, slot)
+      );
+      const cells = GENE_POSITIONS.map(
+        (position) => `${position}=${relationCategory(relations[position])}`
+      );
+      return `${slot}: ${cells.join(" ")}`;
+    });
+    expect(grid).toMatchInlineSnapshot(`
+      [
+        "prestige: D=both R1=matronRecessive R2=sireRecessive R3=matronRecessive",
+        "secret: D=sireDominant R1=sireRecessive R2=both R3=matronRecessive",
+        "environment: D=sireRecessive R1=sireDominant R2=both R3=matronRecessive",
+        "mouth: D=sireDominant R1=both R2=both R3=both",
+        "wild: D=sireDominant R1=both R2=matronRecessive R3=sireRecessive",
+        "accentColor: D=sireDominant R1=matronRecessive R2=matronRecessive R3=sireRecessive",
+        "highlightColor: D=sireDominant R1=matronRecessive R2=both R3=sireRecessive",
+        "baseColor: D=sireDominant R1=both R2=matronRecessive R3=sireRecessive",
+        "eyeShape: D=mutation R1=matronRecessive R2=sireRecessive R3=sireRecessive",
+        "eyeColor: D=sireDominant R1=matronDominant R2=sireRecessive R3=sireRecessive",
+        "pattern: D=mutation R1=sireRecessive R2=both R3=sireRecessive",
+        "body: D=matronDominant R1=both R2=sireRecessive R3=sireRecessive",
+      ]
+    `);
+  });
+});
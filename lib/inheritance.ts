@@ -0,0 +1,214 @@
+import {
+  MUTATION_TIER_LABELS,
+  mutationSources,
+  mutationTier,
+  type MutationTier,
+} from "@/lib/gene-science";
+import {
+  GENE_POSITIONS,
+  TRAIT_SLOTS,
+  type GenePosition,
+  type Genome,
+  type KaiGene,
+  type TraitGenes,
+  type TraitSlot,
+} from "@/lib/genome";
+
+export type ParentRole = "matron" | "sire";
+
+export type GeneOrigin = {
+  parent: ParentRole;
+  position: GenePosition;
+  gene: KaiGene;
+};
+
+export type GeneRelation =
+  // Present in one parent, or both when `origins` has two entries.
+  | { kind: "inherited"; origins: GeneOrigin[] }
+  // A dominant gene neither parent carries, produced from one gene of each.
+  | {
+      kind: "mutation";
+      origins: [GeneOrigin, GeneOrigin];
+      fromTier: MutationTier;
+      tier: MutationTier;
+    }
+  | { kind: "unknown" };
+
+export type RelationCategory =
+  | "both"
+  | "matronDominant"
+  | "matronRecessive"
+  | "sireDominant"
+  | "sireRecessive"
+  | "mutation"
+  | "unknown";
+
+// Swaps move a gene towards D by any number of slots but away from it by at
+// most one, so a kitten gene can only come from a parent slot at most one
+// above it. It most likely came from the same slot, then the closest one.
+function findOrigin(
+  parent: ParentRole,
+  trait: TraitGenes | undefined,
+  gene: KaiGene,
+  position: GenePosition
+): GeneOrigin | null {
+  if (!trait) return null;
+  const target = GENE_POSITIONS.indexOf(position);
+  const candidates = GENE_POSITIONS.filter(
+    (p, i) => trait.genes[p] === gene && i >= target - 1
+  );
+  if (candidates.length === 0) return null;
+  const best = candidates.reduce((a, b) => {
+    const da = Math.abs(GENE_POSITIONS.indexOf(a) - target);
+    const db = Math.abs(GENE_POSITIONS.indexOf(b) - target);
+    return db < da ? b : a;
+  });
+  return { parent, position: best, gene };
+}
+
+export function deriveGeneRelation(
+  matronTrait: TraitGenes | undefined,
+  sireTrait: TraitGenes | undefined,
+  kittenTrait: TraitGenes | undefined,
+  position: GenePosition
+): GeneRelation {
+  const gene = kittenTrait?.genes[position];
+  if (!gene || !matronTrait || !sireTrait) return { kind: "unknown" };
+
+  const origins = [
+    findOrigin("matron", matronTrait, gene, position),
+    findOrigin("sire", sireTrait, gene, position),
+  ].filter((o): o is GeneOrigin => o !== null);
+  if (origins.length > 0) return { kind: "inherited", origins };
+
+  // Mutations only happen in the dominant slot.
+  if (position !== "D") return { kind: "unknown" };
+  for (const [a, b] of mutationSources(gene)) {
+    const pairs: Array<[KaiGene, KaiGene]> = [
+      [a, b],
+      [b, a],
+    ];
+    for (const [mGene, sGene] of pairs) {
+      const m = findOrigin("matron", matronTrait, mGene, "D");
+      const s = findOrigin("sire", sireTrait, sGene, "D");
+      if (m && s) {
+        return {
+          kind: "mutation",
+          origins: [m, s],
+          fromTier: mutationTier(a),
+          tier: mutationTier(gene),
+        };
+      }
+    }
+  }
+  return { kind: "unknown" };
+}
+
+export function deriveTraitRelations(
+  matronTrait?: TraitGenes,
+  sireTrait?: TraitGenes,
+  kittenTrait?: TraitGenes
+): Record<GenePosition, GeneRelation> {
+  const relations = {} as Record<GenePosition, GeneRelation>;
+  for (const position of GENE_POSITIONS) {
+    relations[position] = deriveGeneRelation(
+      matronTrait,
+      sireTrait,
+      kittenTrait,
+      position
+    );
+  }
+  return relations;
+}
+
+function originCategory(origin: GeneOrigin): RelationCategory {
+  const dominant = origin.position === "D";
+  if (origin.parent === "matron") {
+    return dominant ? "matronDominant" : "matronRecessive";
+  }
+  return dominant ? "sireDominant" : "sireRecessive";
+}
+
+export function relationCategory(relation: GeneRelation): RelationCategory {
+  switch (relation.kind) {
+    case "inherited":
+      return relation.origins.length > 1
+        ? "both"
+        : originCategory(relation.origins[0]);
+    case "mutation":
+      return "mutation";
+    default:
+      return "unknown";
+  }
+}
+
+// How a parent's gene cell should be shown: the category of the first kitten
+// gene it was passed on to, or null when the kitten did not take it.
+export function parentGeneCategory(
+  parent: ParentRole,
+  position: GenePosition,
+  relations: Record<GenePosition, GeneRelation>
+): RelationCategory | null {
+  for (const kittenPosition of GENE_POSITIONS) {
+    const relation = relations[kittenPosition];
+    if (relation.kind === "unknown") continue;
+    const used = relation.origins.some(
+      (o) => o.parent === parent && o.position === position
+    );
+    if (used) return relationCategory(relation);
+  }
+  return null;
+}
+
+export function hasMutation(
+  relations: Record<GenePosition, GeneRelation>
+): boolean {
+  return GENE_POSITIONS.some(
+    (position) => relations[position].kind === "mutation"
+  );
+}
+
+export type TraitMutation = {
+  slot: TraitSlot;
+  position: GenePosition;
+  relation: Extract<GeneRelation, { kind: "mutation" }>;
+};
+
+// Every gene of `kitten` that is a genuine mutation of its parents' genes.
+export function findMutations(
+  kitten: Genome,
+  matron: Genome,
+  sire: Genome
+): TraitMutation[] {
+  return TRAIT_SLOTS.flatMap((slot, idx) => {
+    const relations = deriveTraitRelations(matron[idx], sire[idx], kitten[idx]);
+    return GENE_POSITIONS.flatMap((position) => {
+      const relation = relations[position];
+      return relation.kind === "mutation" ? [{ slot, position, relation }] : [];
+    });
+  });
+}
+
+function describeOrigin(origin: GeneOrigin): string {
+  return `${origin.parent} ${origin.position}`;
+}
+
+export function describeRelation(relation: GeneRelation): string {
+  switch (relation.kind) {
+    case "inherited":
+      return relation.origins.length > 1
+        ? `from both parents (${relation.origins.map(describeOrigin).join(", ")})`
+        : `from ${describeOrigin(relation.origins[0])}`;
+    case "mutation": {
+      const [m, s] = relation.origins;
+      return (
+        `mutation of ${m.gene} (${describeOrigin(m)}) + ` +
+        `${s.gene} (${describeOrigin(s)}): ` +
+        `${MUTATION_TIER_LABELS[relation.fromTier]} → ` +
+        MUTATION_TIER_LABELS[relation.tier]
+      );
+    }
+    default:
+      return "origin unknown";
+  }
+}
@@ -0,0 +1,57 @@
+import { describe, expect, it } from "vitest";
+import { CATTRIBUTES, cattributeName } from "@/lib/cattributes";
+import type { TraitSlot } from "@/lib/genome";
+import {
+  detectFancy,
+  exclusiveName,
+  FANCY_RECIPES,
+  isFounder,
+  specialName,
+} from "@/lib/kitty-meta";
+import { fixtureGenome } from "@/test/fixtures";
+
+describe("detectFancy", () => {
+  const genome = fixtureGenome("900000002");
+  const dominant = (slot: TraitSlot) =>
+    cattributeName(slot, genome.find((t) => t.slot === slot)!.genes.D);
+
+  it("matches a recipe when every required cattribute is dominant", () => {
+    const recipe = {
+      name: "Test Fancy",
+      requires: { body: dominant("body"), mouth: dominant("mouth") },
+    };
+    expect(detectFancy(genome, [recipe])).toBe("Test Fancy");
+  });
+
+  it("ignores recipes with a cattribute the kitty lacks", () => {
+    const recipe = {
+      name: "Test Fancy",
+      requires: { body: dominant("body"), mouth: "not-a-mouth" },
+    };
+    expect(detectFancy(genome, [recipe])).toBeNull();
+  });
+
+  it("only names cattributes that exist in each recipe's slot", () => {
+    for (const recipe of FANCY_RECIPES) {
+      for (const [slot, name] of Object.entries(recipe.requires)) {
+        expect(Object.values(CATTRIBUTES[slot as TraitSlot])).toContain(name);
+      }
+    }
+  });
+});
+
+describe("exclusive and founder kitties", () => {
+  it("labels Genesis exclusive and founders separately", () => {
+    expect(exclusiveName("1")).toBe("Genesis");
+    expect(exclusiveName("2")).toBeNull();
+    expect(isFounder("1")).toBe(false);
+    expect(isFounder("2")).toBe(true);
+    expect(isFounder("100")).toBe(true);
+    expect(isFounder("101")).toBe(false);
+  });
+
+  it("does not count founders as special", () => {
+    expect(specialName("50", fixtureGenome("900000002"))).toBeNull();
+    expect(specialName("1", fixtureGenome("900000002"))).toBe("Genesis");
+  });
+});
@@ -0,0 +1,182 @@
+import { getBirths } from "@/lib/births";
+import { cattributeName } from "@/lib/cattributes";
+import type { Genome, TraitSlot } from "@/lib/genome";
+import type { Birth } from "@/lib/gql";
+import { isGenZero } from "@/lib/pedigree";
+
+// Facts about a kitty that KittyCore tracks but the Birth index doesn't carry:
+// generation and starting cooldown follow from the ancestor chain, fancy status
+// from the genome, and exclusive and founder status from the kitty ID.
+
+// KittyCore's cooldown tiers; a kitty starts at min(generation / 2, 13).
+export const COOLDOWN_NAMES = [
+  "Fast",
+  "Swift",
+  "Swift",
+  "Snappy",
+  "Snappy",
+  "Brisk",
+  "Brisk",
+  "Plodding",
+  "Plodding",
+  "Slow",
+  "Slow",
+  "Sluggish",
+  "Sluggish",
+  "Catatonic",
+];
+
+export function cooldownIndex(generation: number): number {
+  return Math.min(Math.floor(generation / 2), COOLDOWN_NAMES.length - 1);
+}
+
+export function cooldownName(generation: number): string {
+  return COOLDOWN_NAMES[cooldownIndex(generation)];
+}
+
+// A fancy is bred, not minted: any kitty whose dominant cattributes include
+// every required one matches that fancy's recipe.
+export type FancyRecipe = {
+  name: string;
+  requires: Partial<Record<TraitSlot, string>>;
+};
+
+// A wrong entry puts a misleading badge on every matching kitty, so keep these
+// in step with the recipes in the CryptoKitties catalogue.
+export const FANCY_RECIPES: FancyRecipe[] = [
+  {
+    name: "DuCat",
+    requires: {
+      body: "cymric",
+      pattern: "spock",
+      eyeColor: "chestnut",
+      baseColor: "cloudwhite",
+    },
+  },
+  {
+    name: "Santa Claws",
+    requires: {
+      body: "cymric",
+      pattern: "ganado",
+      baseColor: "cloudwhite",
+      highlightColor: "scarlet",
+      mouth: "neckbeard",
+    },
+  },
+  {
+    name: "Knight Kitty",
+    requires: {
+      body: "munchkin",
+      eyeShape: "wiley",
+      baseColor: "greymatter",
+      accentColor: "granitegrey",
+    },
+  },
+  {
+    name: "Dracula",
+    requires: {
+      body: "sphynx",
+      pattern: "tigerpunk",
+      eyeColor: "strawberry",
+      baseColor: "greymatter",
+      mouth: "fangtastic",
+    },
+  },
+];
+
+export function detectFancy(
+  genome: Genome,
+  recipes: FancyRecipe[] = FANCY_RECIPES
+): string | null {
+  const dominant = new Map(
+    genome.map((trait) => [
+      trait.slot,
+      cattributeName(trait.slot, trait.genes.D),
+    ])
+  );
+  const match = recipes.find((recipe) =>
+    (Object.entries(recipe.requires) as Array<[TraitSlot, string]>).every(
+      ([slot, name]) => dominant.get(slot) === name
+    )
+  );
+  return match?.name ?? null;
+}
+
+// Genesis is the only exclusive the kitty ID alone identifies.
+export function exclusiveName(kittyId: string): string | null {
+  return Number(kittyId) === 1 ? "Genesis" : null;
+}
+
+// The first hundred kitties were minted by the team before launch. They're
+// ordinary gen-0 cats, not exclusives.
+const FOUNDER_COUNT = 100;
+
+export function isFounder(kittyId: string): boolean {
+  const id = Number(kittyId);
+  return id > 1 && id <= FOUNDER_COUNT;
+}
+
+// Fancy or exclusive name, for listings that only care whether a kitty is
+// special.
+export function specialName(kittyId: string, genome: Genome): string | null {
+  return exclusiveName(kittyId) ?? detectFancy(genome);
+}
+
+const generations = new Map<string, number>();
+
+export function cachedGeneration(kittyId: string): number | undefined {
+  return generations.get(kittyId);
+}
+
+// Generation of a birth whose parents' generations are already known.
+export function generationFromParents(
+  birth: Birth,
+  parentGeneration: (kittyId: string) => number | undefined
+): number | undefined {
+  if (isGenZero(birth)) return 0;
+  const m = parentGeneration(birth.matronId);
+  const s = parentGeneration(birth.sireId);
+  if (m === undefined || s === undefined) return undefined;
+  return Math.max(m, s) + 1;
+}
+
+// Generations of `births`, walking up their ancestors one generation per
+// request until every line reaches gen 0 or an already known kitty. Kitties
+// with an ancestor missing from the index are left out.
+export async function loadGenerations(
+  births: Birth[]
+): Promise<Map<string, number>> {
+  const seen = new Map<string, Birth>();
+  let frontier = births;
+  while (frontier.length > 0) {
+    const parentIds = new Set<string>();
+    for (const birth of frontier) {
+      seen.set(birth.kittyId, birth);
+      if (generations.has(birth.kittyId) || isGenZero(birth)) continue;
+      for (const id of [birth.matronId, birth.sireId]) {
+        if (!seen.has(id) && !generations.has(id)) parentIds.add(id);
+      }
+    }
+    frontier = await getBirths([...parentIds]);
+  }
+
+  // Parents always have lower IDs than their kittens, so resolving in ID
+  // order sees every parent first.
+  const ordered = [...seen.values()].sort(
+    (a, b) => Number(a.kittyId) - Number(b.kittyId)
+  );
+  for (const birth of ordered) {
+    if (generations.has(birth.kittyId)) continue;
+    const generation = generationFromParents(birth, (id) =>
+      generations.get(id)
+    );
+    if (generation !== undefined) generations.set(birth.kittyId, generation);
+  }
+
+  const result = new Map<string, number>();
+  for (const birth of births) {
+    const generation = generations.get(birth.kittyId);
+    if (generation !== undefined) result.set(birth.kittyId, generation);
+  }
+  return result;
+}
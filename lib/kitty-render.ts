@@ -0,0 +1,190 @@
+import {
+  getTrait,
+  kaiToValue,
+  type Genome,
+  type TraitSlot,
+} from "@/lib/genome";
+
+// Draws a stylised kitty from its dominant genes, for when the official
+// images can't be loaded and for genomes no kitty has been born with. The
+// layers below stand in for the official art: each gene picks one of a few
+// shapes, and each colour gene a tone of its own, so kitties that differ in a
+// visible cattribute look different without claiming to match the artwork.
+
+const SIZE = 200;
+
+type BodyShape = {
+  head: { cx: number; cy: number; r: number };
+  body: { cx: number; cy: number; rx: number; ry: number };
+  ears: "pointy" | "round" | "folded" | "tufted";
+  tail: string;
+};
+
+const BODY_SHAPES: BodyShape[] = [
+  {
+    head: { cx: 80, cy: 85, r: 42 },
+    body: { cx: 112, cy: 140, rx: 56, ry: 38 },
+    ears: "pointy",
+    tail: "M162,145 C190,140 188,95 172,88",
+  },
+  {
+    head: { cx: 82, cy: 88, r: 46 },
+    body: { cx: 112, cy: 145, rx: 60, ry: 42 },
+    ears: "round",
+    tail: "M166,150 C184,150 186,132 176,124",
+  },
+  {
+    head: { cx: 78, cy: 82, r: 38 },
+    body: { cx: 110, cy: 138, rx: 50, ry: 34 },
+    ears: "tufted",
+    tail: "M156,142 C196,138 190,78 168,72",
+  },
+  {
+    head: { cx: 80, cy: 86, r: 44 },
+    body: { cx: 114, cy: 142, rx: 62, ry: 36 },
+    ears: "folded",
+    tail: "M172,142 C192,128 180,104 168,108",
+  },
+];
+
+const EARS: Record<BodyShape["ears"], (head: BodyShape["head"]) => string> = {
+  pointy: ({ cx, cy, r }) =>
+    `M${cx - r * 0.9},${cy - r * 0.3} L${cx - r * 0.7},${cy - r * 1.25} L${cx - r * 0.15},${cy - r * 0.85} Z ` +
+    `M${cx + r * 0.9},${cy - r * 0.3} L${cx + r * 0.7},${cy - r * 1.25} L${cx + r * 0.15},${cy - r * 0.85} Z`,
+  round: ({ cx, cy, r }) =>
+    `M${cx - r * 0.95},${cy - r * 0.3} Q${cx - r * 0.95},${cy - r * 1.2} ${cx - r * 0.2},${cy - r * 0.9} Z ` +
+    `M${cx + r * 0.95},${cy - r * 0.3} Q${cx + r * 0.95},${cy - r * 1.2} ${cx + r * 0.2},${cy - r * 0.9} Z`,
+  tufted: ({ cx, cy, r }) =>
+    `M${cx - r * 0.9},${cy - r * 0.3} L${cx - r * 0.8},${cy - r * 1.45} L${cx - r * 0.2},${cy - r * 0.85} Z ` +
+    `M${cx + r * 0.9},${cy - r * 0.3} L${cx + r * 0.8},${cy - r * 1.45} L${cx + r * 0.2},${cy - r * 0.85} Z`,
+  folded: ({ cx, cy, r }) =>
+    `M${cx - r * 0.85},${cy - r * 0.45} L${cx - r * 0.75},${cy - r * 0.95} L${cx - r * 0.25},${cy - r * 0.9} Z ` +
+    `M${cx + r * 0.85},${cy - r * 0.45} L${cx + r * 0.75},${cy - r * 0.95} L${cx + r * 0.25},${cy - r * 0.9} Z`,
+};
+
+// Highlight-coloured markings, clipped to the kitty's silhouette.
+const PATTERNS: string[] = [
+  "",
+  [20, 44, 68, 92, 116, 140, 164]
+    .map((x) => `<rect x="${x}" y="0" width="9" height="${SIZE}"/>`)
+    .join(""),
+  [
+    [60, 60],
+    [100, 70],
+    [90, 125],
+    [125, 115],
+    [150, 145],
+    [110, 160],
+    [70, 100],
+  ]
+    .map(([cx, cy]) => `<circle cx="${cx}" cy="${cy}" r="7"/>`)
+    .join(""),
+  `<ellipse cx="60" cy="70" rx="30" ry="24"/><ellipse cx="140" cy="130" rx="34" ry="26"/>`,
+  `<ellipse cx="115" cy="112" rx="70" ry="18"/>`,
+  [14, 26, 38]
+    .map(
+      (r) => `<circle cx="118" cy="138" r="${r}" fill="none" stroke-width="6"/>`
+    )
+    .join(""),
+];
+
+type Eye = { cx: number; cy: number };
+
+const EYES: Array<(eye: Eye, colour: string) => string> = [
+  ({ cx, cy }, colour) =>
+    `<circle cx="${cx}" cy="${cy}" r="9" fill="#fff"/><circle cx="${cx}" cy="${cy}" r="6" fill="${colour}"/><circle cx="${cx}" cy="${cy}" r="3" fill="#111"/>`,
+  ({ cx, cy }, colour) =>
+    `<ellipse cx="${cx}" cy="${cy}" rx="10" ry="6" fill="${colour}"/><ellipse cx="${cx}" cy="${cy}" rx="1.8" ry="5" fill="#111"/>`,
+  ({ cx, cy }, colour) =>
+    `<path d="M${cx - 9},${cy} A9,9 0 0 0 ${cx + 9},${cy} Z" fill="${colour}"/><path d="M${cx - 10},${cy} L${cx + 10},${cy}" stroke="#111" stroke-width="2"/>`,
+  ({ cx, cy }, colour) =>
+    `<circle cx="${cx}" cy="${cy}" r="11" fill="${colour}"/><circle cx="${cx}" cy="${cy}" r="5" fill="#111"/><circle cx="${cx + 3}" cy="${cy - 4}" r="2.5" fill="#fff"/>`,
+  ({ cx, cy }, colour) =>
+    `<circle cx="${cx}" cy="${cy}" r="8" fill="${colour}"/><circle cx="${cx}" cy="${cy}" r="3" fill="#111"/><path d="M${cx - 10},${cy - 14} L${cx + 8},${cy - 9}" stroke="#111" stroke-width="2.5"/>`,
+];
+
+type Mouth = { x: number; y: number };
+
+const MOUTHS: Array<(mouth: Mouth) => string> = [
+  ({ x, y }) =>
+    `<path d="M${x - 9},${y} Q${x},${y + 9} ${x + 9},${y}" fill="none" stroke="#111" stroke-width="2"/>`,
+  ({ x, y }) =>
+    `<path d="M${x - 10},${y} Q${x - 5},${y + 6} ${x},${y} Q${x + 5},${y + 6} ${x + 10},${y}" fill="none" stroke="#111" stroke-width="2"/>`,
+  ({ x, y }) =>
+    `<ellipse cx="${x}" cy="${y + 3}" rx="7" ry="6" fill="#3b0a0a"/><ellipse cx="${x}" cy="${y + 6}" rx="4" ry="2.5" fill="#f472b6"/>`,
+  ({ x, y }) =>
+    `<path d="M${x - 9},${y} Q${x},${y + 8} ${x + 9},${y}" fill="none" stroke="#111" stroke-width="2"/><path d="M${x - 6},${y + 2} l2,6 l2,-5 Z M${x + 6},${y + 2} l-2,6 l-2,-5 Z" fill="#fff" stroke="#111" stroke-width="0.5"/>`,
+  ({ x, y }) =>
+    `<path d="M${x - 9},${y} Q${x},${y + 7} ${x + 9},${y}" fill="none" stroke="#111" stroke-width="2"/><ellipse cx="${x + 2}" cy="${y + 7}" rx="3.5" ry="4" fill="#f472b6"/>`,
+  ({ x, y }) =>
+    `<path d="M${x - 8},${y + 2} L${x + 8},${y + 2}" stroke="#111" stroke-width="2"/>`,
+];
+
+// Saturation and lightness per colour slot; the gene picks the hue.
+const COLOUR_TONES: Partial<Record<TraitSlot, [number, number]>> = {
+  baseColor: [45, 78],
+  highlightColor: [55, 50],
+  accentColor: [60, 90],
+  eyeColor: [75, 45],
+};
+
+function dominantValue(genome: Genome, slot: TraitSlot): number {
+  const gene = getTrait(genome, slot)?.genes.D;
+  return gene ? kaiToValue(gene) : 0;
+}
+
+function colour(genome: Genome, slot: TraitSlot): string {
+  const [saturation, lightness] = COLOUR_TONES[slot]!;
+  // Golden-angle steps keep neighbouring genes' hues far apart.
+  const hue = Math.round((dominantValue(genome, slot) * 137.508) % 360);
+  return `hsl(${hue}, ${saturation}%, ${lightness}%)`;
+}
+
+function pick<T>(layers: T[], genome: Genome, slot: TraitSlot): T {
+  return layers[dominantValue(genome, slot) % layers.length];
+}
+
+export function renderKittySvg(genome: Genome): string {
+  const shape = pick(BODY_SHAPES, genome, "body");
+  const { head, body } = shape;
+  const base = colour(genome, "baseColor");
+  const highlight = colour(genome, "highlightColor");
+  const accent = colour(genome, "accentColor");
+  const eyeColour = colour(genome, "eyeColor");
+  const drawEye = pick(EYES, genome, "eyeShape");
+  const drawMouth = pick(MOUTHS, genome, "mouth");
+
+  const tail =
+    `<path d="${shape.tail}" fill="none" stroke="#1f2937" stroke-width="16" stroke-linecap="round"/>` +
+    `<path d="${shape.tail}" fill="none" stroke="${base}" stroke-width="12" stroke-linecap="round"/>`;
+  const silhouette =
+    `<path d="${EARS[shape.ears](head)}"/>` +
+    `<ellipse cx="${body.cx}" cy="${body.cy}" rx="${body.rx}" ry="${body.ry}"/>` +
+    `<circle cx="${head.cx}" cy="${head.cy}" r="${head.r}"/>`;
+
+  return (
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${SIZE}" height="${SIZE}" viewBox="0 0 ${SIZE} ${SIZE}">` +
+    `<defs><clipPath id="kitty">${silhouette}</clipPath></defs>` +
+    tail +
+    `<g fill="${base}" stroke="#1f2937" stroke-width="2">${silhouette}</g>` +
+    `<g clip-path="url(#kitty)">` +
+    `<ellipse cx="${body.cx - 4}" cy="${body.cy + body.ry * 0.45}" rx="${body.rx * 0.55}" ry="${body.ry * 0.5}" fill="${accent}"/>` +
+    `<g fill="${highlight}" stroke="${highlight}" opacity="0.85">${pick(
+      PATTERNS,
+      genome,
+      "pattern"
+    )}</g>` +
+    `</g>` +
+    drawEye({ cx: head.cx - 15, cy: head.cy - 4 }, eyeColour) +
+    drawEye({ cx: head.cx + 15, cy: head.cy - 4 }, eyeColour) +
+    `<path d="M${head.cx - 3},${head.cy + 10} L${head.cx + 3},${head.cy + 10} L${head.cx},${head.cy + 14} Z" fill="#f9a8d4"/>` +
+    drawMouth({ x: head.cx, y: head.cy + 18 }) +
+    `</svg>`
+  );
+}
+
+export function kittySvgDataUrl(genome: Genome): string {
+  return `data:image/svg+xml;charset=utf-8,${encodeURIComponent(
+    renderKittySvg(genome)
+  )}`;
+}
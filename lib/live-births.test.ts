@@ -0,0 +1,48 @@
+import { describe, expect, it, vi } from "vitest";
+import { subscribeToBirths } from "@/lib/live-births";
+import { FIXTURE_BIRTHS } from "@/test/fixtures";
+
+// A socket the test drives by hand, standing in for the graphql-ws endpoint.
+class FakeSocket {
+  static last: FakeSocket;
+  onopen: (() => void) | null = null;
+  onmessage: ((event: { data: string }) => void) | null = null;
+  onclose: (() => void) | null = null;
+  sent: unknown[] = [];
+
+  constructor() {
+    FakeSocket.last = this;
+  }
+
+  send(data: string) {
+    this.sent.push(JSON.parse(data));
+  }
+
+  close() {}
+
+  receive(data: string) {
+    this.onmessage?.({ data });
+  }
+}
+
+describe("subscribeToBirths", () => {
+  it("skips malformed frames and keeps delivering", () => {
+    vi.stubGlobal("WebSocket", FakeSocket);
+    const onBirths = vi.fn();
+    const stop = subscribeToBirths(onBirths, () => {});
+    const socket = FakeSocket.last;
+
+    socket.receive(JSON.stringify({ type: "connection_ack" }));
+    expect(() => socket.receive("{not json")).not.toThrow();
+    const births = FIXTURE_BIRTHS.slice(0, 2);
+    socket.receive(
+      JSON.stringify({
+        type: "next",
+        id: "births",
+        payload: { data: { KittyCore_Birth: births } },
+      })
+    );
+    expect(onBirths).toHaveBeenCalledExactlyOnceWith(births);
+    stop();
+  });
+});
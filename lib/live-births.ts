@@ -0,0 +1,160 @@
+import { getLatest, rememberBirths } from "@/lib/births";
+import { getDataSource } from "@/lib/data-source";
+import { GQL_ENDPOINT, type Birth, type BirthQuery } from "@/lib/gql";
+
+// Streams the newest births over the graphql-ws protocol, reconnecting with
+// exponential backoff. If the endpoint never acknowledges a subscription
+// (e.g. a plain HTTP stand-in for Hasura) we fall back to polling.
+
+export type LiveStatus = "connecting" | "live" | "polling" | "closed";
+
+const FEED_SIZE = 20;
+const POLL_INTERVAL_MS = 10_000;
+const MIN_BACKOFF_MS = 1_000;
+const MAX_BACKOFF_MS = 30_000;
+// Consecutive failed connections before giving up on subscriptions.
+const MAX_FAILED_CONNECTIONS = 3;
+
+const SUBSCRIPTION = `
+  subscription NewBirths($limit: Int!) {
+    KittyCore_Birth(limit: $limit, order_by: {timestamp: desc}) {
+      id
+      owner
+      kittyId
+      matronId
+      sireId
+      genes
+      timestamp
+    }
+  }
+`;
+
+export function websocketUrl(endpoint: string = GQL_ENDPOINT): string {
+  return endpoint.replace(/^http(s?):\/\//, (_, s: string) => `ws${s}://`);
+}
+
+type ServerMessage =
+  | { type: "connection_ack" }
+  | { type: "ping" }
+  | { type: "pong" }
+  | { type: "next"; id: string; payload: { data?: BirthQuery } }
+  | { type: "error"; id: string; payload: unknown }
+  | { type: "complete"; id: string };
+
+// Calls `onBirths` with the latest births (newest first) whenever they change.
+// Returns a function that stops the feed.
+export function subscribeToBirths(
+  onBirths: (births: Birth[]) => void,
+  onStatus: (status: LiveStatus) => void
+): () => void {
+  let stopped = false;
+  let socket: WebSocket | null = null;
+  let retryTimer: ReturnType<typeof setTimeout> | null = null;
+  let pollTimer: ReturnType<typeof setInterval> | null = null;
+  let backoff = MIN_BACKOFF_MS;
+  let failedConnections = 0;
+
+  // `getLatest` has already cached polled births; subscription frames are
+  // cached as they arrive.
+  function deliver(births: Birth[]) {
+    if (!stopped) onBirths(births);
+  }
+
+  function startPolling() {
+    onStatus("polling");
+    const poll = async () => {
+      try {
+        deliver(await getLatest(FEED_SIZE));
+      } catch {
+        // Keep polling; the next tick may succeed.
+      }
+    };
+    void poll();
+    pollTimer = setInterval(poll, POLL_INTERVAL_MS);
+  }
+
+  function scheduleReconnect() {
+    if (stopped) return;
+    if (failedConnections >= MAX_FAILED_CONNECTIONS) {
+      startPolling();
+      return;
+    }
+    onStatus("connecting");
+    retryTimer = setTimeout(connect, backoff);
+    backoff = Math.min(backoff * 2, MAX_BACKOFF_MS);
+  }
+
+  function connect() {
+    if (stopped) return;
+    if (
+      typeof WebSocket === "undefined" ||
+      !getDataSource().supportsSubscriptions
+    ) {
+      startPolling();
+      return;
+    }
+    onStatus("connecting");
+    let acknowledged = false;
+    const ws = new WebSocket(websocketUrl(), "graphql-transport-ws");
+    socket = ws;
+
+    ws.onopen = () => {
+      ws.send(JSON.stringify({ type: "connection_init", payload: {} }));
+    };
+    ws.onmessage = (event) => {
+      let message: ServerMessage;
+      try {
+        message = JSON.parse(String(event.data)) as ServerMessage;
+      } catch {
+        // Skip a malformed frame; the next one may be fine.
+        return;
+      }
+      switch (message.type) {
+        case "connection_ack":
+          acknowledged = true;
+          failedConnections = 0;
+          backoff = MIN_BACKOFF_MS;
+          onStatus("live");
+          ws.send(
+            JSON.stringify({
+              id: "births",
+              type: "subscribe",
+              payload: {
+                query: SUBSCRIPTION,
+                variables: { limit: FEED_SIZE },
+              },
+            })
+          );
+          break;
+        case "ping":
+          ws.send(JSON.stringify({ type: "pong" }));
+          break;
+        case "next":
+          if (message.payload.data) {
+            deliver(rememberBirths(message.payload.data.KittyCore_Birth));
+          }
+          break;
+        case "error":
+          // The server speaks the protocol but rejects the subscription.
+          failedConnections = MAX_FAILED_CONNECTIONS;
+          ws.close();
+          break;
+      }
+    };
+    ws.onclose = () => {
+      if (socket === ws) socket = null;
+      if (!acknowledged) failedConnections++;
+      scheduleReconnect();
+    };
+  }
+
+  connect();
+
+  return () => {
+    stopped = true;
+    if (retryTimer) clearTimeout(retryTimer);
+    if (pollTimer) clearInterval(pollTimer);
+    socket?.close();
+    onStatus("closed");
+  };
+}
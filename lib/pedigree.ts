@@ -0,0 +1,67 @@
+import { getBirths } from "@/lib/births";
+import type { Birth } from "@/lib/gql";
+
+export type PedigreeNode = {
+  kittyId: string;
+  // Null when the kitty is not in the index.
+  birth: Birth | null;
+  matron?: PedigreeNode;
+  sire?: PedigreeNode;
+};
+
+// Gen-0 kitties were minted rather than bred and have parent ID 0.
+export function isGenZero(birth: Birth): boolean {
+  return birth.matronId === "0" && birth.sireId === "0";
+}
+
+export type Lineage = Pick<Birth, "kittyId" | "matronId" | "sireId">;
+
+// KittyCore's mating rules: a kitty can't breed with itself, its parents or
+// kittens, or a full or half sibling. Gen-0 kitties share parent ID 0 without
+// being siblings.
+export function canBreed(a: Lineage, b: Lineage): boolean {
+  if (a.kittyId === b.kittyId) return false;
+  if (a.matronId === b.kittyId || a.sireId === b.kittyId) return false;
+  if (b.matronId === a.kittyId || b.sireId === a.kittyId) return false;
+  if (a.matronId === "0" || b.matronId === "0") return true;
+  return ![b.matronId, b.sireId].some(
+    (id) => id === a.matronId || id === a.sireId
+  );
+}
+
+// Loads `depth` generations of ancestors above `kittyId`, one query per
+// generation. Kitties shared by several branches are only fetched once.
+export async function loadAncestry(
+  kittyId: string,
+  depth: number
+): Promise<Map<string, Birth>> {
+  const births = new Map<string, Birth>();
+  let frontier = [kittyId];
+  for (let gen = 0; gen <= depth && frontier.length > 0; gen++) {
+    const found = await getBirths(frontier);
+    for (const birth of found) births.set(birth.kittyId, birth);
+    if (gen === depth) break;
+    const next = new Set<string>();
+    for (const birth of found) {
+      if (isGenZero(birth)) continue;
+      for (const parentId of [birth.matronId, birth.sireId]) {
+        if (parentId !== "0" && !births.has(parentId)) next.add(parentId);
+      }
+    }
+    frontier = [...next];
+  }
+  return births;
+}
+
+export function buildPedigree(
+  kittyId: string,
+  births: Map<string, Birth>,
+  depth: number
+): PedigreeNode {
+  const birth = births.get(kittyId) ?? null;
+  const node: PedigreeNode = { kittyId, birth };
+  if (!birth || depth <= 0 || isGenZero(birth)) return node;
+  node.matron = buildPedigree(birth.matronId, births, depth - 1);
+  node.sire = buildPedigree(birth.sireId, births, depth - 1);
+  return node;
+}
@@ -0,0 +1,83 @@
+import { cattributeName } from "@/lib/cattributes";
+import { mutationTier, type MutationTier } from "@/lib/gene-science";
+import {
+  GENE_POSITIONS,
+  type Genome,
+  type KaiGene,
+  type TraitSlot,
+} from "@/lib/genome";
+import { geneFrequency, type RarityStats } from "@/lib/rarity";
+
+// Dominant genes carried by less than this share of kitties count as rare.
+export const RARE_FREQUENCY = 0.01;
+
+export type CattributeTally = {
+  slot: TraitSlot;
+  name: string;
+  // Kitties showing the cattribute, and kitties only carrying it in R1-R3.
+  dominant: number;
+  hidden: number;
+};
+
+export type KittyHighlights = {
+  // Highest mutation tier among all 48 genes.
+  maxTier: MutationTier;
+  rarest: { slot: TraitSlot; gene: KaiGene; frequency: number } | null;
+};
+
+export function shortAddress(address: string): string {
+  return address.length > 12
+    ? `${address.slice(0, 6)}…${address.slice(-4)}`
+    : address;
+}
+
+// Cattribute counts across a set of kitties, most common first.
+export function tallyCattributes(genomes: Genome[]): CattributeTally[] {
+  const tallies = new Map<string, CattributeTally>();
+  for (const genome of genomes) {
+    for (const trait of genome) {
+      const dominant = cattributeName(trait.slot, trait.genes.D);
+      const hidden = new Set(
+        GENE_POSITIONS.filter((position) => position !== "D")
+          .map((position) => cattributeName(trait.slot, trait.genes[position]))
+          .filter((name): name is string => Boolean(name) && name !== dominant)
+      );
+      const names = dominant ? [dominant, ...hidden] : [...hidden];
+      for (const name of names) {
+        const key = `${trait.slot}:${name}`;
+        const tally = tallies.get(key) ?? {
+          slot: trait.slot,
+          name,
+          dominant: 0,
+          hidden: 0,
+        };
+        if (name === dominant) tally.dominant++;
+        else tally.hidden++;
+        tallies.set(key, tally);
+      }
+    }
+  }
+  return [...tallies.values()].sort(
+    (a, b) => b.dominant + b.hidden - (a.dominant + a.hidden)
+  );
+}
+
+export function kittyHighlights(
+  genome: Genome,
+  stats: RarityStats | null
+): KittyHighlights {
+  let maxTier: MutationTier = 0;
+  let rarest: KittyHighlights["rarest"] = null;
+  for (const trait of genome) {
+    for (const position of GENE_POSITIONS) {
+      const tier = mutationTier(trait.genes[position]);
+      if (tier > maxTier) maxTier = tier;
+    }
+    if (!stats || stats.total === 0) continue;
+    const frequency = geneFrequency(stats, trait.slot, "D", trait.genes.D);
+    if (!rarest || frequency < rarest.frequency) {
+      rarest = { slot: trait.slot, gene: trait.genes.D, frequency };
+    }
+  }
+  return { maxTier, rarest };
+}
@@ -0,0 +1,124 @@
+import { getBirth } from "@/lib/births";
+import {
+  getTrait,
+  tryDecodeGenome,
+  type GenePosition,
+  type KaiGene,
+  type TraitSlot,
+} from "@/lib/genome";
+import type { Birth } from "@/lib/gql";
+import {
+  deriveGeneRelation,
+  type GeneOrigin,
+  type GeneRelation,
+  type ParentRole,
+} from "@/lib/inheritance";
+import { isGenZero } from "@/lib/pedigree";
+
+export type ProvenanceSource =
+  | {
+      kind: "parent";
+      parent: ParentRole;
+      kittyId: string;
+      position: GenePosition;
+      // The other parent carried the same gene too.
+      shared: boolean;
+    }
+  | {
+      kind: "mutation";
+      relation: Extract<GeneRelation, { kind: "mutation" }>;
+      matronId: string;
+      sireId: string;
+    }
+  | { kind: "genZero" }
+  | { kind: "untraced" }
+  | { kind: "depthLimit" };
+
+// One kitty on the path, carrying the gene at `position`, and how it got it.
+export type ProvenanceStep = {
+  kittyId: string;
+  position: GenePosition;
+  gene: KaiGene;
+  source: ProvenanceSource;
+};
+
+export type GeneTrace = {
+  slot: TraitSlot;
+  steps: ProvenanceStep[];
+};
+
+// Prefers the origin that kept the gene in the same slot, since that is the
+// most likely route through the swap step.
+function pickOrigin(origins: GeneOrigin[], position: GenePosition) {
+  return origins.find((o) => o.position === position) ?? origins[0];
+}
+
+// Follows one gene of `kitten` up through its ancestors until it reaches the
+// kitty that introduced it by mutation, a gen-0 kitty, or a gap in the index.
+export async function traceGene(
+  kitten: Birth,
+  slot: TraitSlot,
+  position: GenePosition,
+  maxDepth = 12
+): Promise<GeneTrace> {
+  const steps: ProvenanceStep[] = [];
+  let current: Birth = kitten;
+  let currentPosition = position;
+
+  for (let depth = 0; ; depth++) {
+    const trait = getTrait(tryDecodeGenome(current.genes), slot);
+    const gene = trait?.genes[currentPosition] ?? "";
+    const step: ProvenanceStep = {
+      kittyId: current.kittyId,
+      position: currentPosition,
+      gene,
+      source: { kind: "untraced" },
+    };
+    steps.push(step);
+
+    if (isGenZero(current)) {
+      step.source = { kind: "genZero" };
+      break;
+    }
+    if (depth >= maxDepth) {
+      step.source = { kind: "depthLimit" };
+      break;
+    }
+    const [matron, sire] = await Promise.all([
+      getBirth(current.matronId),
+      getBirth(current.sireId),
+    ]);
+    if (!trait || !matron || !sire) break;
+
+    const relation = deriveGeneRelation(
+      getTrait(tryDecodeGenome(matron.genes), slot),
+      getTrait(tryDecodeGenome(sire.genes), slot),
+      trait,
+      currentPosition
+    );
+    if (relation.kind === "mutation") {
+      step.source = {
+        kind: "mutation",
+        relation,
+        matronId: matron.kittyId,
+        sireId: sire.kittyId,
+      };
+      break;
+    }
+    if (relation.kind === "unknown") break;
+
+    const origin = pickOrigin(relation.origins, currentPosition);
+    const parent = origin.parent === "matron" ? matron : sire;
+    step.source = {
+      kind: "parent",
+      parent: origin.parent,
+      kittyId: parent.kittyId,
+      position: origin.position,
+      shared: relation.origins.length > 1,
+    };
+    current = parent;
+    currentPosition = origin.position;
+  }
+
+  return { slot, steps };
+}
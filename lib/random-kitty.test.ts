@@ -0,0 +1,79 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { setDataSource, type BirthDataSource } from "@/lib/data-source";
+import { createFixtureSource } from "@/lib/fixture-source";
+import { tryDecodeGenome } from "@/lib/genome";
+import { findMutations } from "@/lib/inheritance";
+import { pickRandomKitty } from "@/lib/random-kitty";
+import { FIXTURE_BIRTHS } from "@/test/fixtures";
+
+let source: BirthDataSource;
+
+beforeEach(() => {
+  source = createFixtureSource(FIXTURE_BIRTHS);
+  setDataSource(source);
+});
+
+const byId = new Map(FIXTURE_BIRTHS.map((b) => [b.kittyId, b]));
+
+// Kitties of the sample dump with a gene mutated from their parents'.
+const MUTATED = FIXTURE_BIRTHS.filter((birth) => {
+  const k = tryDecodeGenome(birth.genes);
+  const m = tryDecodeGenome(byId.get(birth.matronId)?.genes);
+  const s = tryDecodeGenome(byId.get(birth.sireId)?.genes);
+  return k && m && s && findMutations(k, m, s).length > 0;
+}).map((b) => b.kittyId);
+
+describe("pickRandomKitty", () => {
+  it("returns a kitten with its parents", async () => {
+    const kitty = await pickRandomKitty({ withParents: true });
+    expect(kitty?.matron?.kittyId).toBe(kitty?.kitten.matronId);
+    expect(kitty?.sire?.kittyId).toBe(kitty?.kitten.sireId);
+  });
+
+  it("leaves the owner and gen 0 filters to the data source", async () => {
+    const sample = vi.spyOn(source, "sampleBirths");
+    const owner = FIXTURE_BIRTHS[0].owner.toUpperCase();
+    const kitty = await pickRandomKitty({ owner, maxGeneration: 0 });
+    expect(sample).toHaveBeenCalledWith(expect.any(Number), {
+      owner,
+      bred: false,
+    });
+    expect(kitty?.kitten.owner).toBe(FIXTURE_BIRTHS[0].owner);
+    expect(kitty?.kitten.matronId).toBe("0");
+  });
+
+  it("only picks mutated kittens for the mutation filter", async () => {
+    for (let i = 0; i < 10; i++) {
+      const kitty = await pickRandomKitty({ mutation: true });
+      expect(MUTATED).toContain(kitty?.kitten.kittyId);
+    }
+  });
+
+  it("scans for a match when every sample is rejected", async () => {
+    // Every sample is then the first bred kitty, which has no mutation, and
+    // the scan keeps the last match it sees.
+    vi.spyOn(Math, "random").mockReturnValue(0);
+    expect(MUTATED).not.toContain(
+      FIXTURE_BIRTHS.find((b) => b.matronId !== "0")?.kittyId
+    );
+    const scan = vi.spyOn(source, "getBirthsPage");
+    const kitty = await pickRandomKitty({ mutation: true });
+    expect(scan).toHaveBeenCalled();
+    expect(kitty?.kitten.kittyId).toBe(MUTATED[MUTATED.length - 1]);
+  });
+
+  it("stops scanning a sparse filter after a few pages", async () => {
+    const genZero = FIXTURE_BIRTHS.filter((b) => b.matronId === "0");
+    vi.spyOn(source, "sampleBirths").mockResolvedValue(genZero);
+    const scan = vi.spyOn(source, "getBirthsPage").mockResolvedValue(genZero);
+    expect(await pickRandomKitty({ mutation: true })).toBeNull();
+    expect(scan.mock.calls.length).toBeLessThanOrEqual(10);
+  });
+
+  it("returns null when nothing matches", async () => {
+    expect(await pickRandomKitty({ owner: "0xnobody" })).toBeNull();
+    expect(
+      await pickRandomKitty({ mutation: true, maxGeneration: 0 })
+    ).toBeNull();
+  });
+});
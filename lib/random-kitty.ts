@@ -0,0 +1,146 @@
+import { getBirths, rememberBirths } from "@/lib/births";
+import { getDataSource, type BirthFilter } from "@/lib/data-source";
+import { tryDecodeGenome } from "@/lib/genome";
+import type { Birth } from "@/lib/gql";
+import { findMutations } from "@/lib/inheritance";
+import { loadGenerations } from "@/lib/kitty-meta";
+
+// Picks a random kitty by sampling existing births rather than guessing IDs,
+// so gaps in the index never cause a miss. The owner, and whether a kitty was
+// bred at all, are left to the data source; the rest (indexed parents,
+// mutations, generation) is applied by rejection, taking the first sample
+// that passes. When a rare filter rejects every sample, the matching births
+// are scanned instead, up to a limit.
+
+export type RandomKittyFilter = {
+  // Only kitties whose matron and sire are both indexed.
+  withParents?: boolean;
+  // Only kitties with at least one gene mutated from their parents' genes.
+  mutation?: boolean;
+  minGeneration?: number;
+  maxGeneration?: number;
+  owner?: string;
+};
+
+export type RandomKitty = {
+  kitten: Birth;
+  matron: Birth | null;
+  sire: Birth | null;
+};
+
+const SAMPLE_SIZE = 32;
+const MAX_ROUNDS = 8;
+const SCAN_PAGE_SIZE = 500;
+const MAX_SCAN_PAGES = 10;
+
+function hasGenerationFilter(filter: RandomKittyFilter) {
+  return (
+    filter.minGeneration !== undefined || filter.maxGeneration !== undefined
+  );
+}
+
+function hasMutatedGene(kitty: RandomKitty): boolean {
+  const kitten = tryDecodeGenome(kitty.kitten.genes);
+  const matron = tryDecodeGenome(kitty.matron?.genes);
+  const sire = tryDecodeGenome(kitty.sire?.genes);
+  if (!kitten || !matron || !sire) return false;
+  return findMutations(kitten, matron, sire).length > 0;
+}
+
+function matchesFilter(
+  kitty: RandomKitty,
+  filter: RandomKittyFilter,
+  generations: Map<string, number>
+): boolean {
+  const needsParents = filter.withParents || filter.mutation;
+  if (needsParents && !(kitty.matron && kitty.sire)) return false;
+  if (filter.mutation && !hasMutatedGene(kitty)) return false;
+  if (hasGenerationFilter(filter)) {
+    const generation = generations.get(kitty.kitten.kittyId);
+    if (generation === undefined) return false;
+    if (generation < (filter.minGeneration ?? 0)) return false;
+    if (generation > (filter.maxGeneration ?? Infinity)) return false;
+  }
+  return true;
+}
+
+// The part of `filter` the data source can apply itself. Parents, mutations
+// and any generation above 0 all need a bred kitty.
+function sourceFilter(filter: RandomKittyFilter): BirthFilter {
+  let bred: boolean | undefined;
+  if (
+    filter.withParents ||
+    filter.mutation ||
+    (filter.minGeneration ?? 0) > 0
+  ) {
+    bred = true;
+  } else if (filter.maxGeneration === 0) {
+    bred = false;
+  }
+  return { owner: filter.owner, bred };
+}
+
+// The kitties among `births` that match `filter`, in order.
+async function matchingKitties(
+  births: Birth[],
+  filter: RandomKittyFilter
+): Promise<RandomKitty[]> {
+  const parents = new Map(
+    (await getBirths(births.flatMap((b) => [b.matronId, b.sireId]))).map(
+      (b) => [b.kittyId, b]
+    )
+  );
+  const generations = hasGenerationFilter(filter)
+    ? await loadGenerations(births)
+    : new Map<string, number>();
+
+  return births
+    .map((kitten) => ({
+      kitten,
+      matron: parents.get(kitten.matronId) ?? null,
+      sire: parents.get(kitten.sireId) ?? null,
+    }))
+    .filter((kitty) => matchesFilter(kitty, filter, generations));
+}
+
+// Walks the births the data source matches, keeping one of the kitties that
+// pass `filter` uniformly at random (reservoir sampling). Gives up after
+// MAX_SCAN_PAGES pages so a sparse filter can't crawl the whole index.
+async function scanForKitty(
+  filter: RandomKittyFilter
+): Promise<RandomKitty | null> {
+  const source = getDataSource();
+  let picked: RandomKitty | null = null;
+  let seen = 0;
+  let after = "0";
+  for (let pages = 0; pages < MAX_SCAN_PAGES; pages++) {
+    const page = await source.getBirthsPage(
+      after,
+      SCAN_PAGE_SIZE,
+      sourceFilter(filter)
+    );
+    if (page.length === 0) return picked;
+    for (const kitty of await matchingKitties(page, filter)) {
+      seen++;
+      if (Math.random() * seen < 1) picked = kitty;
+    }
+    after = page[page.length - 1].kittyId;
+  }
+  return null;
+}
+
+// A random kitty matching `filter` with its parents, or null when nothing in
+// the index matches or too few kitties do to find one.
+export async function pickRandomKitty(
+  filter: RandomKittyFilter = {}
+): Promise<RandomKitty | null> {
+  for (let round = 0; round < MAX_ROUNDS; round++) {
+    const sampled = rememberBirths(
+      await getDataSource().sampleBirths(SAMPLE_SIZE, sourceFilter(filter))
+    );
+    if (sampled.length === 0) return null;
+    const [kitty] = await matchingKitties(sampled, filter);
+    if (kitty) return kitty;
+  }
+  return scanForKitty(filter);
+}
@@ -0,0 +1,113 @@
+import { getDataSource } from "@/lib/data-source";
+import {
+  GENE_POSITIONS,
+  KAI_ALPHABET,
+  kaiToValue,
+  TRAIT_SLOTS,
+  tryDecodeGenome,
+  type GenePosition,
+  type KaiGene,
+  type TraitSlot,
+} from "@/lib/genome";
+import type { Birth } from "@/lib/gql";
+
+// Population-wide gene counts: for every trait slot and gene position, how
+// many kitties carry each of the 32 Kai genes there. Counting walks the index
+// in kittyId order and is resumable, so later sessions only fetch new births.
+
+export type GeneCounts = Record<TraitSlot, Record<GenePosition, number[]>>;
+
+export type RarityStats = {
+  total: number;
+  // Highest kittyId counted so far; the next page starts after it.
+  lastKittyId: string;
+  counts: GeneCounts;
+};
+
+const PAGE_SIZE = 1000;
+const STORAGE_PREFIX = "kitty-genome:rarity:";
+
+export function emptyRarityStats(): RarityStats {
+  const counts = {} as GeneCounts;
+  for (const slot of TRAIT_SLOTS) {
+    counts[slot] = {} as Record<GenePosition, number[]>;
+    for (const position of GENE_POSITIONS) {
+      counts[slot][position] = new Array(KAI_ALPHABET.length).fill(0);
+    }
+  }
+  return { total: 0, lastKittyId: "0", counts };
+}
+
+// Adds births in kittyId order to `stats` in place.
+export function addBirthsToStats(stats: RarityStats, births: Birth[]) {
+  for (const birth of births) {
+    const genome = tryDecodeGenome(birth.genes);
+    if (!genome) continue;
+    for (const trait of genome) {
+      for (const position of GENE_POSITIONS) {
+        const gene = kaiToValue(trait.genes[position]);
+        stats.counts[trait.slot][position][gene]++;
+      }
+    }
+    stats.total++;
+    stats.lastKittyId = birth.kittyId;
+  }
+}
+
+// Share of counted kitties carrying `gene` at `position`, between 0 and 1.
+export function geneFrequency(
+  stats: RarityStats,
+  slot: TraitSlot,
+  position: GenePosition,
+  gene: KaiGene
+): number {
+  if (stats.total === 0) return 0;
+  return stats.counts[slot][position][kaiToValue(gene)] / stats.total;
+}
+
+export function formatFrequency(frequency: number): string {
+  const pct = frequency * 100;
+  if (pct > 0 && pct < 0.1) return "<0.1%";
+  return `${pct < 10 ? pct.toFixed(1) : pct.toFixed(0)}%`;
+}
+
+function storageKey() {
+  return STORAGE_PREFIX + getDataSource().name;
+}
+
+export function loadStoredRarityStats(): RarityStats | null {
+  if (typeof localStorage === "undefined") return null;
+  try {
+    const raw = localStorage.getItem(storageKey());
+    return raw ? (JSON.parse(raw) as RarityStats) : null;
+  } catch {
+    return null;
+  }
+}
+
+function storeRarityStats(stats: RarityStats) {
+  if (typeof localStorage === "undefined") return;
+  try {
+    localStorage.setItem(storageKey(), JSON.stringify(stats));
+  } catch {
+    // Storage full or disabled; stats are recomputed next session.
+  }
+}
+
+// Counts every birth after `stats.lastKittyId`, page by page, reporting the
+// running totals after each page.
+export async function collectRarityStats(
+  stats: RarityStats,
+  onProgress?: (stats: RarityStats) => void
+): Promise<RarityStats> {
+  const source = getDataSource();
+  for (;;) {
+    const page = await source.getBirthsPage(stats.lastKittyId, PAGE_SIZE);
+    if (page.length === 0) break;
+    addBirthsToStats(stats, page);
+    storeRarityStats(stats);
+    onProgress?.(stats);
+    if (page.length < PAGE_SIZE) break;
+  }
+  return stats;
+}
@@ -0,0 +1,171 @@
+import { cattributeName } from "@/lib/cattributes";
+import type { GenePosition, TraitGenes, TraitSlot } from "@/lib/genome";
+import {
+  describeRelation,
+  relationCategory,
+  type GeneRelation,
+  type RelationCategory,
+} from "@/lib/inheritance";
+
+// Declarative guided tours: each step points at an element by CSS selector
+// and explains it. Steps are built from the loaded kitten so the tour talks
+// about the genes actually on screen.
+
+export type TourPlacement = "top" | "right" | "bottom" | "left";
+
+export type TourStep = {
+  id: string;
+  selector: string;
+  title: string;
+  description: string;
+  placement?: TourPlacement;
+};
+
+export type TourTrait = {
+  slot: TraitSlot;
+  label: string;
+  kitten?: TraitGenes;
+  relations: Record<GenePosition, GeneRelation>;
+};
+
+const STORAGE_PREFIX = "kitty-genome:tour:";
+
+export const GENOME_TOUR_ID = "genome";
+
+export function hasCompletedTour(tourId: string): boolean {
+  if (typeof localStorage === "undefined") return false;
+  try {
+    return localStorage.getItem(STORAGE_PREFIX + tourId) === "done";
+  } catch {
+    return false;
+  }
+}
+
+export function markTourCompleted(tourId: string) {
+  if (typeof localStorage === "undefined") return;
+  try {
+    localStorage.setItem(STORAGE_PREFIX + tourId, "done");
+  } catch {
+    // Storage disabled; the tour is simply offered again next time.
+  }
+}
+
+export function kittenCellSelector(label: string, position?: GenePosition) {
+  const quad = `[data-genome="kitten"][data-trait="${label}"]`;
+  return position ? `${quad} [data-position="${position}"]` : quad;
+}
+
+const MUTATION_TEXT =
+  "When the parents' dominant genes form a mutation pair, such as 1 and 2 or 3 and 4, they can mutate into a rarer gene instead of being inherited.";
+
+const LEGEND_TEXT: Record<Exclude<RelationCategory, "mutation">, string> = {
+  both: "Green genes could have come from either parent: both carry the same gene at the position it was taken from.",
+  matronDominant:
+    "Dark amber genes came from the matron's dominant gene. On the matron's row, amber marks the genes she passed on.",
+  matronRecessive:
+    "Light amber genes came from one of the matron's hidden R1-R3 genes.",
+  sireDominant: "Dark blue genes came from the sire's dominant gene.",
+  sireRecessive:
+    "Light blue genes came from one of the sire's hidden R1-R3 genes.",
+  unknown:
+    "Grey genes can't be traced to either parent's genes, or on a parent's row, genes that weren't passed on.",
+};
+
+function countCategory(traits: TourTrait[], category: RelationCategory) {
+  return traits.reduce(
+    (sum, trait) =>
+      sum +
+      Object.values(trait.relations).filter(
+        (r) => relationCategory(r) === category
+      ).length,
+    0
+  );
+}
+
+export function buildGenomeTour(
+  kittyId: string | undefined,
+  traits: TourTrait[]
+): TourStep[] {
+  const kitten = kittyId ? `#${kittyId}` : "the kitten";
+  const mouth = traits.find((t) => t.slot === "mouth");
+  const mouthName = (position: GenePosition) => {
+    const gene = mouth?.kitten?.genes[position];
+    if (!mouth || !gene) return "";
+    return ` (${gene}, ${cattributeName(mouth.slot, gene) ?? "unnamed"})`;
+  };
+  const steps: TourStep[] = [
+    {
+      id: "dominant",
+      selector: kittenCellSelector("Mouth"),
+      title: "Dominant trait (rightmost)",
+      description: `Each trait is a group of four characters. The rightmost one is dominant, and it's what you see on the kitten's appearance. Here we highlight the Mouth trait of ${kitten}${mouthName("D")}.`,
+      placement: "bottom",
+    },
+    {
+      id: "recessive",
+      selector: kittenCellSelector("Mouth", "R1"),
+      title: "Hidden genes",
+      description: `The three genes to the left are recessive: R1${mouthName("R1")}, R2 and R3. They don't show, but ${kitten} can pass them on, and when breeding each one can swap forward towards the dominant slot.`,
+      placement: "bottom",
+    },
+    {
+      id: "parents",
+      selector: '[data-tour="parents"]',
+      title: "Parents",
+      description:
+        "The matron and sire rows use the same layout. Every kitten gene is taken from one of the parents at the same position, after some of their genes have swapped places.",
+      placement: "top",
+    },
+  ];
+
+  for (const category of Object.keys(LEGEND_TEXT) as Array<
+    keyof typeof LEGEND_TEXT
+  >) {
+    steps.push({
+      id: `legend-${category}`,
+      selector: `[data-legend="${category}"]`,
+      title: "Inheritance colours",
+      description: `${LEGEND_TEXT[category]} ${kitten} has ${countCategory(
+        traits,
+        category
+      )} such genes.`,
+      placement: "top",
+    });
+  }
+
+  const mutated = traits.flatMap((trait) =>
+    (Object.keys(trait.relations) as GenePosition[])
+      .filter((position) => trait.relations[position].kind === "mutation")
+      .map((position) => ({ trait, position }))
+  );
+  if (mutated.length > 0) {
+    const { trait, position } = mutated[0];
+    steps.push({
+      id: "mutation",
+      selector: kittenCellSelector(trait.label, position),
+      title: "Mutation",
+      description: `${MUTATION_TEXT} ${kitten}'s ${trait.label} gene is a ${describeRelation(
+        trait.relations[position]
+      )}.`,
+      placement: "bottom",
+    });
+  } else {
+    steps.push({
+      id: "mutation",
+      selector: '[data-legend="mutation"]',
+      title: "Mutation",
+      description: `${MUTATION_TEXT} Mutated genes are pink with a red dot. ${kitten} has none.`,
+      placement: "top",
+    });
+  }
+
+  steps.push({
+    id: "trace",
+    selector: kittenCellSelector("Mouth", "D"),
+    title: "Trace a gene",
+    description:
+      "Click any kitten gene to follow it back through its ancestors to the kitty it first appeared in.",
+    placement: "bottom",
+  });
+  return steps;
+}
@@ -0,0 +1,46 @@
+import { readFileSync } from "fs";
+import path from "path";
+import { parseFixture } from "@/lib/fixture-source";
+import { decodeGenome, type Genome } from "@/lib/genome";
+import type { Birth } from "@/lib/gql";
+
+// The sample dump shipped for the fixture data source, read straight from
+// disk so tests see the same kitties as `NEXT_PUBLIC_DATA_SOURCE=fixture`.
+export const FIXTURE_BIRTHS: Birth[] = parseFixture(
+  readFileSync(
+    path.resolve(__dirname, "../public/fixtures/births.ndjson"),
+    "utf8"
+  )
+);
+
+export function fixtureBirth(kittyId: string): Birth {
+  const birth = FIXTURE_BIRTHS.find((b) => b.kittyId === kittyId);
+  if (!birth) throw new Error(`No fixture kitty #${kittyId}`);
+  return birth;
+}
+
+export function fixtureGenome(kittyId: string): Genome {
+  return decodeGenome(fixtureBirth(kittyId).genes);
+}
+
+// A kitten with its parents, as the explorer shows it.
+export function fixtureFamily(kittyId: string) {
+  const kitten = fixtureBirth(kittyId);
+  return {
+    kitten,
+    matron: fixtureBirth(kitten.matronId),
+    sire: fixtureBirth(kitten.sireId),
+  };
+}
+
+// Real kitties with their on-chain genes and published Kai strings, so
+// decoding is checked against more than its own round trip.
+export const ON_CHAIN_KITTIES = [
+  {
+    kittyId: "1",
+    name: "Genesis",
+    genes:
+      "626837621154801616088980922659877168609154386318304496692374110716999053",
+    kai: "ccac7787fa7fafaa16467755f9ee444467667366cccceede",
+  },
+];
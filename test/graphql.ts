@@ -0,0 +1,88 @@
+import { vi } from "vitest";
+import { GQL_ENDPOINT, type Birth } from "@/lib/gql";
+import { FIXTURE_BIRTHS } from "@/test/fixtures";
+
+// A stand-in for the Hasura endpoint: answers the data source's queries by
+// operation name from an in-memory list of births. Other URLs are answered
+// by `routes`, keyed by path.
+
+type Variables = Record<string, unknown>;
+
+export type GraphqlRequest = { operation: string; variables: Variables };
+
+export type GraphqlMockOptions = {
+  births?: Birth[];
+  // Answer every GraphQL request with this HTTP status instead.
+  status?: number;
+  routes?: Record<string, () => Response>;
+};
+
+const byKittyId = (a: Birth, b: Birth) => Number(a.kittyId) - Number(b.kittyId);
+
+function answer(births: Birth[], operation: string, variables: Variables) {
+  switch (operation) {
+    case "BirthsByKittyIds": {
+      const ids = variables.ids as string[];
+      return births.filter((b) => ids.includes(b.kittyId));
+    }
+    case "LatestBirths":
+      return [...births]
+        .sort((a, b) => Number(b.timestamp) - Number(a.timestamp))
+        .slice(0, variables.limit as number);
+    case "Children":
+      return births
+        .filter((b) => b.matronId === variables.id || b.sireId === variables.id)
+        .sort(byKittyId);
+    case "BirthsByOwner": {
+      const owner = String(variables.owner).toLowerCase();
+      return births.filter((b) => b.owner.toLowerCase() === owner);
+    }
+    case "MaxId":
+      return [...births].sort(byKittyId).slice(-1);
+    case "BirthsPage":
+      return births
+        .filter((b) => Number(b.kittyId) > Number(variables.after))
+        .sort(byKittyId)
+        .slice(0, variables.limit as number);
+    default:
+      return null;
+  }
+}
+
+export function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+// Stubs the global `fetch` and returns the GraphQL requests it receives.
+export function mockGraphql({
+  births = FIXTURE_BIRTHS,
+  status,
+  routes = {},
+}: GraphqlMockOptions = {}): GraphqlRequest[] {
+  const requests: GraphqlRequest[] = [];
+  const fetchMock = vi.fn(
+    async (input: RequestInfo | URL, init?: RequestInit) => {
+      const url = String(input);
+      if (url !== GQL_ENDPOINT) {
+        const route = routes[new URL(url, "http://localhost").pathname];
+        return route ? route() : jsonResponse({ error: "Not found" }, 404);
+      }
+      const { query, variables = {} } = JSON.parse(String(init?.body));
+      const operation = /(?:query|subscription)\s+(\w+)/.exec(query)?.[1];
+      requests.push({ operation: operation ?? "", variables });
+      if (status) return jsonResponse({}, status);
+      const rows = operation ? answer(births, operation, variables) : null;
+      if (!rows) {
+        return jsonResponse({
+          errors: [{ message: `Unexpected ${operation}` }],
+        });
+      }
+      return jsonResponse({ data: { KittyCore_Birth: rows } });
+    }
+  );
+  vi.stubGlobal("fetch", fetchMock);
+  return requests;
+}